@@ -0,0 +1,78 @@
+// src/__tests__/applyPlan.actions.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, lstatSync, mkdirSync, readFileSync, readlinkSync, statSync, writeFileSync } from "fs";
+import path from "path";
+import { applyPlan, describeAction } from "../utils.js";
+import type { PlanAction } from "../types.js";
+import { makeTmpDir, read } from "./helpers.js";
+
+describe("applyPlan file actions", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+  const at = (...parts: string[]) => path.join(tmp.dir, ...parts);
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+    mkdirSync(at("templates"));
+    writeFileSync(at("templates", "logo.png"), Buffer.from([0x89, 0x50, 0x00, 0xff]));
+    writeFileSync(at("package.json"), '{\n    "name": "app",\n    "scripts": { "build": "tsc", "old": "x" }\n}\n');
+    writeFileSync(at("deploy.yml"), "# deploy settings\nstage: dev\nreplicas: 1\n");
+    writeFileSync(at(".gitignore"), "node_modules");
+    writeFileSync(at("obsolete.txt"), "bye");
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  const plan = (): PlanAction[] => [
+    { type: "copy", from: at("templates", "logo.png"), path: at("public", "logo.png") },
+    { type: "write", path: at("scripts", "deploy.sh"), content: "#!/bin/sh\n" },
+    { type: "chmod", path: at("scripts", "deploy.sh"), mode: "755" },
+    { type: "symlink", path: at("shared.json"), target: "package.json" },
+    { type: "append", path: at(".gitignore"), content: "dist/\n" },
+    { type: "append", path: at(".gitignore"), content: "dist/\n" },
+    { type: "patch", path: at("package.json"), patch: { scripts: { test: "vitest", old: null } } },
+    { type: "patch", path: at("deploy.yml"), patch: { replicas: 3, env: { NODE_ENV: "production" } } },
+    { type: "remove", path: at("obsolete.txt") }
+  ];
+
+  it("runs each action type", async () => {
+    await applyPlan(plan(), false, undefined, { targetDir: tmp.dir });
+
+    expect(readFileSync(at("public", "logo.png"))).toEqual(Buffer.from([0x89, 0x50, 0x00, 0xff]));
+    if (process.platform !== "win32") {
+      expect(statSync(at("scripts", "deploy.sh")).mode & 0o777).toBe(0o755);
+    }
+    expect(readlinkSync(at("shared.json"))).toBe("package.json");
+    expect(read(at(".gitignore"))).toBe("node_modules\ndist/\n");
+    expect(JSON.parse(read(at("package.json"))).scripts).toEqual({ build: "tsc", test: "vitest" });
+    expect(read(at("package.json"))).toMatch(/^ {4}"name"/m);
+    expect(read(at("deploy.yml"))).toBe("# deploy settings\nstage: dev\nreplicas: 3\nenv:\n  NODE_ENV: production\n");
+    expect(existsSync(at("obsolete.txt"))).toBe(false);
+  });
+
+  it("describes actions in dry runs without touching the disk", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await applyPlan(plan(), true, undefined, { targetDir: tmp.dir });
+    const output = logSpy.mock.calls.map(c => c.join(" ")).join("\n");
+    logSpy.mockRestore();
+
+    expect(output).toContain(`chmod 755 ${at("scripts", "deploy.sh")}`);
+    expect(output).toContain(`patch ${at("deploy.yml")} (yaml merge: replicas, env)`);
+    expect(existsSync(at("obsolete.txt"))).toBe(true);
+    expect(describeAction({ type: "chmod", path: "x", mode: 0o644 })).toBe("chmod 644 x");
+  });
+
+  it("undoes every action type on transactional rollback", async () => {
+    const failing: PlanAction[] = [...plan(), { type: "exec", cwd: tmp.dir, cmd: "forge-tree-missing-binary", args: [] }];
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await expect(applyPlan(failing, false, undefined, { targetDir: tmp.dir, transactional: true })).rejects.toThrow();
+    vi.restoreAllMocks();
+
+    expect(existsSync(at("public"))).toBe(false);
+    expect(existsSync(at("scripts"))).toBe(false);
+    expect(() => lstatSync(at("shared.json"))).toThrow();
+    expect(read(at(".gitignore"))).toBe("node_modules");
+    expect(read(at("package.json"))).toContain('"old": "x"');
+    expect(read(at("deploy.yml"))).toBe("# deploy settings\nstage: dev\nreplicas: 1\n");
+    expect(read(at("obsolete.txt"))).toBe("bye");
+  });
+});
@@ -0,0 +1,63 @@
+// src/__tests__/applyPlan.overwrite.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { applyPlan, BACKUP_DIR } from "../utils.js";
+import type { PlanAction } from "../types.js";
+import { makeTmpDir, listFilesRecursive, read } from "./helpers.js";
+
+describe("applyPlan with existing files", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+  let file: string;
+  let plan: PlanAction[];
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+    file = path.join(tmp.dir, "src", "index.ts");
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, "old\n");
+    plan = [{ type: "write", path: file, content: "new\n" }];
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  it("leaves existing files alone with skipExisting", async () => {
+    await applyPlan(plan, false, undefined, { targetDir: tmp.dir, skipExisting: true, overwriteMode: "force" });
+    expect(read(file)).toBe("old\n");
+  });
+
+  it("overwrites in force mode", async () => {
+    await applyPlan(plan, false, undefined, { targetDir: tmp.dir, overwriteMode: "force" });
+    expect(read(file)).toBe("new\n");
+  });
+
+  it("skips existing files in ask mode with --yes", async () => {
+    await applyPlan(plan, false, undefined, { targetDir: tmp.dir, overwriteMode: "ask", yes: true });
+    expect(read(file)).toBe("old\n");
+  });
+
+  it("moves the previous version into the backup directory", async () => {
+    await applyPlan(plan, false, undefined, { targetDir: tmp.dir, overwriteMode: "force", backup: true });
+    expect(read(file)).toBe("new\n");
+
+    const backups = listFilesRecursive(path.join(tmp.dir, BACKUP_DIR));
+    expect(backups).toHaveLength(1);
+    expect(backups[0]).toMatch(/^[^/\\]+[/\\]src[/\\]index\.ts$/);
+    expect(read(path.join(tmp.dir, BACKUP_DIR, backups[0]))).toBe("old\n");
+  });
+
+  it("does not back up files whose content is unchanged", async () => {
+    writeFileSync(file, "new\n");
+    await applyPlan(plan, false, undefined, { targetDir: tmp.dir, overwriteMode: "force", backup: true });
+    expect(listFilesRecursive(tmp.dir)).toEqual([path.join("src", "index.ts")]);
+  });
+
+  it("notes the overwrite decision in dry-run output", async () => {
+    const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await applyPlan(plan, true, undefined, { targetDir: tmp.dir, overwriteMode: "skip" });
+    const output = spy.mock.calls.map((c) => c.join(" ")).join("\n");
+    expect(output).toMatch(/\[exists: skip\]/);
+    expect(read(file)).toBe("old\n");
+    spy.mockRestore();
+  });
+});
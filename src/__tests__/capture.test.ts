@@ -0,0 +1,107 @@
+// src/__tests__/capture.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, symlinkSync, writeFileSync } from "fs";
+import path from "path";
+import { captureTree, isIgnored, parseGitignore } from "../capture.js";
+import { planFromTree } from "../generators.js";
+import { parseTree } from "../parser.js";
+import type { ForgeConfig, TreeNode } from "../types.js";
+import { makeTmpDir } from "./helpers.js";
+
+const cfg = { tabIndentationSize: 2, detectAsciiGuides: true } as ForgeConfig;
+
+// path -> kind (and content, when present) for every node
+function flatten(nodes: TreeNode[], out: Record<string, string> = {}) {
+  for (const node of nodes) {
+    const text = node.content?.type === "inline" ? `:${node.content.text}` : "";
+    out[node.path] = node.kind + text;
+    flatten(node.children, out);
+  }
+  return out;
+}
+
+describe("captureTree", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+    const write = (rel: string, content = "") => {
+      mkdirSync(path.dirname(path.join(tmp.dir, "app", rel)), { recursive: true });
+      writeFileSync(path.join(tmp.dir, "app", rel), content);
+    };
+    write(".gitignore", "dist/\n*.log\n!keep.log\n");
+    write(".github/workflows/ci.yml", "on: push\n");
+    write("node_modules/pkg/index.js");
+    write("dist/bundle.js");
+    write("debug.log");
+    write("keep.log");
+    write("src/my-lib+utils.ts", "export {};\n");
+    write("src/components/button.tsx");
+    write("Dockerfile", "FROM node:20\n\n# EOF\nEOF\n");
+    write("LICENSE");
+    write("serve");
+    // Left out of every capture
+    symlinkSync("LICENSE", path.join(tmp.dir, "app", "COPYING"));
+    symlinkSync("src", path.join(tmp.dir, "app", "lib"));
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  it.each(["unicode", "simple"] as const)("round-trips through parseTree with %s guides", (style) => {
+    const text = captureTree(path.join(tmp.dir, "app"), { style, contents: true });
+    expect(flatten(parseTree(text, cfg))).toEqual({
+      "app": "dir",
+      "app/.github": "dir",
+      "app/.github/workflows": "dir",
+      "app/.github/workflows/ci.yml": "file:on: push\n",
+      "app/src": "dir",
+      "app/src/components": "dir",
+      "app/src/components/button.tsx": "file",
+      "app/src/my-lib+utils.ts": "file:export {};\n",
+      "app/.gitignore": "file:dist/\n*.log\n!keep.log\n",
+      "app/Dockerfile": "file:FROM node:20\n\n# EOF\nEOF\n",
+      "app/keep.log": "file",
+      "app/LICENSE": "file",
+      "app/serve": "file"
+    });
+  });
+
+  it("keeps template syntax in captured contents literal when scaffolded", () => {
+    const vue = "<template>{{ name }} {{ path }}</template>\n<!-- \\{{ raw }} ${{ env.X }} -->\n{{#if user}}Hi {{user}}{{/if}}\n";
+    writeFileSync(path.join(tmp.dir, "app", "src", "App.vue"), vue);
+    const text = captureTree(path.join(tmp.dir, "app"), { contents: true });
+    const plan = planFromTree(parseTree(text, cfg), { ...cfg, targetDir: tmp.dir, generateDotfiles: false, runDetectors: false });
+    const app = plan.find(a => a.type === "write" && a.path.endsWith("App.vue"));
+    expect(app).toMatchObject({ content: vue });
+  });
+
+  it("stops at the requested depth and leaves contents out by default", () => {
+    const text = captureTree(path.join(tmp.dir, "app"), { maxDepth: 1, gitignore: false });
+    expect(text).toBe([
+      "app/",
+      "├─ .github/",
+      "├─ src/",
+      "├─ .gitignore",
+      "├─ debug.log",
+      "├─ Dockerfile",
+      "├─ keep.log",
+      "├─ LICENSE",
+      "└─ serve @file",
+      ""
+    ].join("\n"));
+  });
+});
+
+describe("gitignore rules", () => {
+  it("matches anchored, directory-only and negated patterns", () => {
+    const rules = [...parseGitignore("/build\ntmp/\n*.env\n!.env.example\n"), ...parseGitignore("out", "pkg")];
+    expect(isIgnored(rules, "build", true)).toBe(true);
+    expect(isIgnored(rules, "src/build", true)).toBe(false);
+    expect(isIgnored(rules, "src/tmp", false)).toBe(false);
+    expect(isIgnored(rules, "src/tmp", true)).toBe(true);
+    expect(isIgnored(rules, "a/.env", false)).toBe(true);
+    expect(isIgnored(rules, ".env.example", false)).toBe(false);
+    expect(isIgnored(rules, "pkg/lib/out", false)).toBe(true);
+    expect(isIgnored(rules, "out", false)).toBe(false);
+  });
+});
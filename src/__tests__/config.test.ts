@@ -0,0 +1,156 @@
+// src/__tests__/config.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { configSnapshot, findConfigFile, loadProjectConfig, mergeConfig, parsePreArgv, splitConfigForCli, validateConfig } from "../config.js";
+import { makeTmpDir } from "./helpers.js";
+
+describe("project config", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  const write = (rel: string, content: unknown) => {
+    const file = path.join(tmp.dir, rel);
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, typeof content === "string" ? content : JSON.stringify(content, null, 2));
+    return file;
+  };
+
+  it("discovers a config file by walking up from cwd", () => {
+    const file = write("forge-tree.config.json", { generateDotfiles: false });
+    const nested = path.join(tmp.dir, "a", "b");
+    mkdirSync(nested, { recursive: true });
+    expect(findConfigFile(nested)).toBe(file);
+  });
+
+  it("reads the forgeTree key from package.json", async () => {
+    write("package.json", { name: "x", forgeTree: { packageManager: "pnpm" } });
+    const { config } = await loadProjectConfig({ cwd: tmp.dir });
+    expect(config.packageManager).toBe("pnpm");
+  });
+
+  it("skips discovery with --no-config", async () => {
+    write("forge-tree.config.json", { generateDotfiles: false });
+    const noConfig = parsePreArgv(["--no-config", "--tree", "app/"]);
+    expect(noConfig).toMatchObject({ config: false, tree: "app/" });
+    expect(await loadProjectConfig({ cwd: tmp.dir, configFile: noConfig.config })).toEqual({ config: {}, files: [] });
+
+    const discovered = await loadProjectConfig({ cwd: tmp.dir, configFile: parsePreArgv(["--tree", "app/"]).config });
+    expect(discovered.config).toEqual({ generateDotfiles: false });
+  });
+
+  it("ignores package.json files without a forgeTree key", () => {
+    write("package.json", { name: "x" });
+    expect(findConfigFile(tmp.dir)).not.toBe(path.join(tmp.dir, "package.json"));
+  });
+
+  it("merges extended presets with the extending file winning", async () => {
+    write("presets/base.json", {
+      packageManager: "yarn",
+      variables: { org: "acme", team: "core" },
+      pathValidation: { maxDepth: 8 }
+    });
+    write("forge-tree.config.json", {
+      extends: "./presets/base.json",
+      packageManager: "pnpm",
+      variables: { team: "web" },
+      templateDir: "templates"
+    });
+
+    const { config, files } = await loadProjectConfig({ cwd: tmp.dir });
+    expect(config.packageManager).toBe("pnpm");
+    expect(config.variables).toEqual({ org: "acme", team: "web" });
+    expect(config.pathValidation).toEqual({ maxDepth: 8 });
+    expect(config.templateDir).toBe(path.join(tmp.dir, "templates"));
+    expect(files.map(f => path.basename(f))).toEqual(["base.json", "forge-tree.config.json"]);
+  });
+
+  it("detects circular extends", async () => {
+    write("a.json", { extends: "./b.json" });
+    write("b.json", { extends: "./a.json" });
+    await expect(loadProjectConfig({ cwd: tmp.dir, configFile: "a.json" }))
+      .rejects.toThrow(/Circular "extends"/);
+  });
+
+  it("reports invalid options with their line number", async () => {
+    write("forge-tree.config.json", [
+      "{",
+      '  "generateDotfiles": false,',
+      '  "packageManager": "bun",',
+      '  "pathValidation": {',
+      '    "maxDepth": "deep"',
+      "  }",
+      "}"
+    ].join("\n"));
+
+    await expect(loadProjectConfig({ cwd: tmp.dir })).rejects.toThrow(/Line 3: "packageManager": Expected one of/);
+    await expect(loadProjectConfig({ cwd: tmp.dir })).rejects.toThrow(/Line 5: "pathValidation.maxDepth": Expected number/);
+  });
+
+  it("reports JSON syntax errors with a line number", async () => {
+    write("forge-tree.config.json", '{\n  "yes": true,\n  "dryRun": true,,\n}');
+    await expect(loadProjectConfig({ cwd: tmp.dir })).rejects.toThrow(/Line 3:/);
+  });
+
+  it("flags unknown options and entries inside arrays", () => {
+    const text = JSON.stringify({
+      customInitializers: [{ id: "a", command: "echo" }, { id: "b", command: 42 }],
+      colour: "blue"
+    }, null, 2);
+    const errors = validateConfig(JSON.parse(text), text);
+    expect(errors.map(e => e.message)).toEqual([
+      '"customInitializers.1.command": Expected string, got number',
+      '"colour": Unknown option'
+    ]);
+    expect(errors[0].line).toBe(9);
+  });
+});
+
+describe("mergeConfig / splitConfigForCli", () => {
+  it("deep merges objects and replaces arrays", () => {
+    const merged = mergeConfig(
+      { variables: { a: "1" }, initTargets: [{ initId: "x", targetDirs: ["a"] }] },
+      { variables: { b: "2" }, initTargets: [{ initId: "y", targetDirs: ["b"] }] }
+    );
+    expect(merged.variables).toEqual({ a: "1", b: "2" });
+    expect(merged.initTargets).toEqual([{ initId: "y", targetDirs: ["b"] }]);
+  });
+
+  it("maps flag-backed fields onto yargs keys", () => {
+    const { argv, rest } = splitConfigForCli({
+      packageManager: "pnpm",
+      generateDotfiles: false,
+      logging: { enabled: true, level: "debug", console: false },
+      variables: { a: "1" }
+    });
+    expect(argv).toEqual({ pm: "pnpm", dotfiles: false, log: true, "log-level": "debug" });
+    expect(rest).toEqual({ logging: { console: false }, variables: { a: "1" } });
+  });
+});
+
+describe("configSnapshot", () => {
+  it("keeps what a config file can express, with absolute paths, and validates", () => {
+    const snapshot = configSnapshot({
+      cwd: "/work",
+      targetDir: "app",
+      templateDir: "templates",
+      packageManager: "pnpm",
+      logging: { enabled: true, level: "info", redact: { keys: ["^internal_"] } },
+      pathConflict: { onDuplicatePath: () => "x.ts", renamePattern: "{name}-{n}" }
+    } as never);
+
+    expect(snapshot).toEqual({
+      targetDir: "/work/app",
+      templateDir: "/work/templates",
+      packageManager: "pnpm",
+      logging: { enabled: true, level: "info", redact: { keys: ["^internal_"] } },
+      pathConflict: { renamePattern: "{name}-{n}" }
+    });
+    expect(validateConfig(snapshot)).toEqual([]);
+  });
+});
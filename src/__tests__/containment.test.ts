@@ -0,0 +1,79 @@
+// src/__tests__/containment.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdirSync, symlinkSync } from "fs";
+import path from "path";
+import { assertInsideTarget } from "../containment.js";
+import { applyPlan } from "../utils.js";
+import type { PlanAction } from "../types.js";
+import { makeTmpDir } from "./helpers.js";
+
+describe("assertInsideTarget", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+  let target: string;
+  let outside: string;
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+    target = path.join(tmp.dir, "target");
+    outside = path.join(tmp.dir, "outside");
+    mkdirSync(target);
+    mkdirSync(outside);
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  const check = (action: PlanAction) => () => assertInsideTarget(action, target);
+
+  it("accepts paths inside the target, including ones that don't exist yet", () => {
+    expect(check({ type: "mkdir", path: path.join(target, "a", "b") })).not.toThrow();
+    expect(check({ type: "write", path: path.join(target, "a", "..", "c.ts"), content: "" })).not.toThrow();
+    expect(check({ type: "copy", from: path.join(outside, "logo.png"), path: path.join(target, "logo.png") })).not.toThrow();
+    expect(check({ type: "mkdir", path: path.join(target, "..cache") })).not.toThrow();
+  });
+
+  it("takes relative paths from the target, not the current directory", () => {
+    expect(check({ type: "mkdir", path: "root" })).not.toThrow();
+    expect(check({ type: "write", path: path.join("..", "outside", "x.ts"), content: "" })).toThrow(/outside the target directory/);
+  });
+
+  it("rejects relative escapes, absolute paths and exec working directories outside the target", () => {
+    expect(check({ type: "write", path: path.join(target, "..", "..", "etc", "foo"), content: "" })).toThrow(/outside the target directory/);
+    expect(check({ type: "mkdir", path: outside })).toThrow(/--allow-outside/);
+    expect(check({ type: "exec", cwd: outside, cmd: "npm", args: ["init"] })).toThrow(/Refusing to run npm in/);
+  });
+
+  it("rejects paths that go through a symlink pointing outside the target", () => {
+    if (process.platform === "win32") return;
+    symlinkSync(outside, path.join(target, "shared"));
+    symlinkSync(path.join(outside, "missing.txt"), path.join(target, "dangling"));
+
+    expect(check({ type: "write", path: path.join(target, "shared", "x.ts"), content: "" })).toThrow(/symlink leads outside/);
+    expect(check({ type: "write", path: path.join(target, "dangling"), content: "" })).toThrow(/symlink leads outside/);
+    // Removing the link itself stays inside
+    expect(check({ type: "remove", path: path.join(target, "shared") })).not.toThrow();
+  });
+
+  it("stops applyPlan before any step runs, unless allowOutside is set", async () => {
+    const plan: PlanAction[] = [
+      { type: "mkdir", path: path.join(target, "app") },
+      { type: "write", path: path.join(outside, "evil.sh"), content: "" }
+    ];
+
+    await expect(applyPlan(plan, false, undefined, { targetDir: target })).rejects.toThrow(/Refusing to write/);
+    expect(existsSync(path.join(target, "app"))).toBe(false);
+
+    await applyPlan(plan, false, undefined, { targetDir: target, allowOutside: true });
+    expect(existsSync(path.join(outside, "evil.sh"))).toBe(true);
+  });
+
+  it("catches symlinks created earlier in the same run", async () => {
+    if (process.platform === "win32") return;
+    const plan: PlanAction[] = [
+      { type: "symlink", path: path.join(target, "link"), target: outside },
+      { type: "write", path: path.join(target, "link", "x.ts"), content: "" }
+    ];
+
+    await expect(applyPlan(plan, false, undefined, { targetDir: target })).rejects.toThrow(/symlink leads outside/);
+    expect(existsSync(path.join(outside, "x.ts"))).toBe(false);
+  });
+});
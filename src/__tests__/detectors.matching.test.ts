@@ -1,7 +1,7 @@
 // src/__tests__/detectors.matching.test.ts
 import { describe, it, expect } from "vitest";
 import { getDetectors } from "../detectors.js";
-import type { TreeNode, TreeStyle } from "../types.js";
+import type { ForgeConfig, TreeNode, TreeStyle } from "../types.js";
 
 function dir(name: string, children: TreeNode[] = [], base = "/tmp") {
   return { name, path: `${base}/${name}`, kind: "dir" as const, children };
@@ -72,3 +72,19 @@ describe("detectors matching", () => {
     expect(det.match(srv, config)).toBe(false);
   });
 });
+
+describe("detector selection", () => {
+  const config = { targetDir: "/tmp", cwd: "/tmp", runDetectors: true } as ForgeConfig;
+
+  it("keeps only enabled detectors and drops disabled ones", () => {
+    expect(getDetectors({ ...config, detectors: { enable: ["npm-init", "firebase-init"] } }).map(d => d.id))
+      .toEqual(["firebase-init", "npm-init"]);
+    const ids = getDetectors({ ...config, detectors: { disable: ["create-next-app"] } }).map(d => d.id);
+    expect(ids).not.toContain("create-next-app");
+    expect(ids).toContain("npm-init");
+  });
+
+  it("rejects unknown detector IDs", () => {
+    expect(() => getDetectors({ ...config, detectors: { disable: ["nextjs"] } })).toThrow(/Unknown detector "nextjs" \(available: create-next-app, /);
+  });
+});
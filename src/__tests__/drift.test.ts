@@ -0,0 +1,86 @@
+// src/__tests__/drift.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { checkDrift, formatDriftReport } from "../drift.js";
+import { captureTree } from "../capture.js";
+import { parseTree } from "../parser.js";
+import type { ForgeConfig } from "../types.js";
+import { makeTmpDir } from "./helpers.js";
+
+const cfg = { tabIndentationSize: 2, detectAsciiGuides: true } as ForgeConfig;
+
+const spec = [
+  "repo/",
+  "├─ apps/",
+  "│  └─ web/",
+  "│     └─ package.json",
+  "├─ packages/",
+  "│  └─ ui/",
+  "│     └─ index.ts",
+  "├─ docs/",
+  "└─ README.md"
+].join("\n");
+
+describe("checkDrift", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+  const write = (rel: string) => {
+    mkdirSync(path.dirname(path.join(tmp.dir, rel)), { recursive: true });
+    writeFileSync(path.join(tmp.dir, rel), "");
+  };
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  it("passes when the directory matches, including captured trees", () => {
+    write("apps/web/package.json");
+    write("packages/ui/index.ts");
+    write("README.md");
+    mkdirSync(path.join(tmp.dir, "docs"));
+    write("node_modules/x/index.js");
+
+    expect(checkDrift(parseTree(spec, cfg), tmp.dir, { rootIsDir: true }).entries).toEqual([]);
+    expect(checkDrift(parseTree(captureTree(tmp.dir), cfg), tmp.dir, { rootIsDir: true }).entries).toEqual([]);
+  });
+
+  it("reads a single top-level directory as a child of the checked directory by default", () => {
+    write("packages/ui/index.ts");
+    const packages = parseTree("packages/\n  ui/\n    index.ts", cfg);
+
+    expect(checkDrift(packages, tmp.dir).entries).toEqual([]);
+    expect(checkDrift(packages, path.join(tmp.dir, "packages")).entries).toEqual([
+      { issue: "missing", path: "packages", expected: "dir" },
+      { issue: "extra", path: "ui", actual: "dir" }
+    ]);
+    expect(() => checkDrift(parseTree("a.ts\nb.ts", cfg), tmp.dir, { rootIsDir: true })).toThrow(/single root directory/);
+  });
+
+  it("compares nested paths and kinds, reporting only the top of each subtree", () => {
+    write("apps/web/package.json");
+    write("docs");
+    write("scratch/notes/a.md");
+    write("debug.log");
+    writeFileSync(path.join(tmp.dir, ".gitignore"), "*.log\n");
+
+    const report = checkDrift(parseTree(spec, cfg), tmp.dir, { rootIsDir: true });
+    expect(report.entries).toEqual([
+      { issue: "missing", path: "packages", expected: "dir" },
+      { issue: "kind", path: "docs", expected: "dir", actual: "file" },
+      { issue: "missing", path: "README.md", expected: "file" },
+      { issue: "extra", path: "scratch", actual: "dir" },
+      { issue: "extra", path: ".gitignore", actual: "file" }
+    ]);
+
+    expect(formatDriftReport(report)).toContain("  - packages: missing dir");
+    expect(JSON.parse(formatDriftReport(report, "json")).drift).toBe(true);
+
+    const junit = formatDriftReport(report, "junit");
+    expect(junit).toContain('tests="10" failures="7"');
+    expect(junit).toContain('<testcase name="packages/ui/index.ts" classname="forge-tree.check">');
+    expect(junit).toContain('<failure message="packages: missing dir"/>');
+    expect(junit).toContain('<testcase name="apps/web/package.json" classname="forge-tree.check"/>');
+  });
+});
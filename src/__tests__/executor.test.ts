@@ -0,0 +1,139 @@
+// src/__tests__/executor.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync } from "fs";
+import path from "path";
+import { OrderedLog, planDependencies, runScheduled } from "../executor.js";
+import type { Logger } from "../logger.js";
+import { applyPlan } from "../utils.js";
+import type { PlanAction } from "../types.js";
+import { makeTmpDir, read } from "./helpers.js";
+
+describe("planDependencies", () => {
+  it("orders parents before children and execs after the files in their directory", () => {
+    const plan: PlanAction[] = [
+      { type: "mkdir", path: "app" },
+      { type: "write", path: "app/a.ts", content: "" },
+      { type: "write", path: "app/b.ts", content: "" },
+      { type: "mkdir", path: "docs" },
+      { type: "exec", cwd: "app", cmd: "npm", args: ["install"] },
+      { type: "exec", cwd: "docs", cmd: "npx", args: ["vitepress", "init"] },
+      { type: "chmod", path: "app/a.ts", mode: "644" },
+      { type: "copy", from: "docs/logo.png", path: "app/logo.png" }
+    ];
+    expect(planDependencies(plan)).toEqual([
+      [],
+      [0],
+      [0],
+      [],
+      [0, 1, 2],
+      [3, 4],
+      [0, 1, 4],
+      [0, 3, 4, 5]
+    ]);
+  });
+
+  it("doesn't relate paths that only share a prefix", () => {
+    const plan: PlanAction[] = [
+      { type: "mkdir", path: "app" },
+      { type: "mkdir", path: "app2" },
+      { type: "write", path: "app2/a.ts", content: "" },
+      { type: "exec", cwd: "app", cmd: "npm", args: ["install"] }
+    ];
+    expect(planDependencies(plan)).toEqual([[], [], [1], [0]]);
+  });
+});
+
+describe("runScheduled", () => {
+  it("respects dependencies and the concurrency limit, starting earlier steps first", async () => {
+    const started: number[] = [];
+    let running = 0;
+    let peak = 0;
+    const deps = [[], [], [0], [], [2], []];
+
+    await runScheduled(deps, 2, async (index) => {
+      started.push(index);
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, index === 0 ? 20 : 5));
+      running--;
+    });
+
+    expect(peak).toBe(2);
+    expect(started.indexOf(2)).toBeGreaterThan(started.indexOf(0));
+    expect(started.indexOf(4)).toBeGreaterThan(started.indexOf(2));
+    expect(started.slice(0, 3)).toEqual([0, 1, 3]);
+  });
+
+  it("stops starting steps after a failure and rejects with the first error", async () => {
+    const started: number[] = [];
+    const run = runScheduled([[], [], [0], [1]], 2, async (index) => {
+      started.push(index);
+      if (index === 0) throw new Error("boom");
+      await new Promise(resolve => setTimeout(resolve, 5));
+    });
+
+    await expect(run).rejects.toThrow("boom");
+    expect(started).toEqual([0, 1]);
+  });
+});
+
+describe("OrderedLog", () => {
+  it("replays logger calls in step order", () => {
+    const calls: string[] = [];
+    const logger = { info: (message: string) => calls.push(message) } as unknown as Logger;
+    const log = new OrderedLog(logger);
+    const [first, second, third] = [log.for(0)!, log.for(1)!, log.for(2)!];
+
+    third.info("third");
+    log.complete(2);
+    second.info("second");
+    log.complete(1);
+    expect(calls).toEqual([]);
+
+    first.info("first");
+    log.complete(0);
+    expect(calls).toEqual(["first", "second", "third"]);
+  });
+});
+
+describe("applyPlan with concurrency", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+  const at = (...parts: string[]) => path.join(tmp.dir, ...parts);
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  const plan = (): PlanAction[] => [
+    { type: "mkdir", path: at("app") },
+    ...Array.from({ length: 20 }, (_, i): PlanAction => ({ type: "write", path: at("app", `f${i}.ts`), content: `${i}` })),
+    { type: "append", path: at("app", "f0.ts"), content: "!" }
+  ];
+
+  it("applies the plan and logs steps in plan order", async () => {
+    const created: string[] = [];
+    const logger = {
+      logDirectoryCreated: (p: string) => created.push(p),
+      logFileCreated: (p: string) => created.push(p),
+      logFileAppended: (p: string) => created.push(`append ${p}`)
+    };
+    const progress = vi.fn();
+
+    await applyPlan(plan(), false, logger, { targetDir: tmp.dir, concurrency: 8, onProgress: progress });
+
+    expect(read(at("app", "f0.ts"))).toBe("0\n!");
+    expect(read(at("app", "f19.ts"))).toBe("19");
+    expect(created).toEqual([at("app"), ...Array.from({ length: 20 }, (_, i) => at("app", `f${i}.ts`)), `append ${at("app", "f0.ts")}`]);
+    expect(progress).toHaveBeenLastCalledWith(22, 22);
+  });
+
+  it("rolls back concurrent steps when one fails", async () => {
+    const failing: PlanAction[] = [...plan(), { type: "exec", cwd: tmp.dir, cmd: "forge-tree-missing-binary", args: [] }];
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await expect(applyPlan(failing, false, undefined, { targetDir: tmp.dir, transactional: true, concurrency: 8 })).rejects.toThrow();
+    vi.restoreAllMocks();
+
+    expect(existsSync(at("app"))).toBe(false);
+  });
+});
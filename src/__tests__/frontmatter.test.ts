@@ -0,0 +1,88 @@
+// src/__tests__/frontmatter.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { writeFileSync } from "fs";
+import path from "path";
+import { splitFrontmatter } from "../frontmatter.js";
+import { loadTreeConfig } from "../config.js";
+import { parseTree } from "../parser.js";
+import type { ForgeConfig } from "../types.js";
+import { makeTmpDir } from "./helpers.js";
+
+const TREE = [
+  "---",
+  "packageManager: pnpm",
+  "generateDotfiles: false",
+  "variables:",
+  "  org: acme",
+  "detectors:",
+  "  disable: [firebase-init]",
+  "---",
+  "app/",
+  "  src/",
+  "  src/"
+].join("\n");
+
+describe("splitFrontmatter", () => {
+  it("reads YAML or JSON and blanks the block to keep line numbers", () => {
+    const { data, text } = splitFrontmatter(TREE);
+    expect(data).toEqual({
+      packageManager: "pnpm",
+      generateDotfiles: false,
+      variables: { org: "acme" },
+      detectors: { disable: ["firebase-init"] }
+    });
+    expect(text.split("\n")).toHaveLength(11);
+    expect(text.split("\n")[8]).toBe("app/");
+
+    expect(splitFrontmatter('---\n{"treeStyle": {"indent": "    "}}\n---\napp/').data).toEqual({ treeStyle: { indent: "    " } });
+    expect(splitFrontmatter("app/\n  ---").data).toBeUndefined();
+  });
+
+  it("rejects unclosed blocks, bad YAML and non-mappings", () => {
+    expect(() => splitFrontmatter("---\npm: pnpm\napp/")).toThrow("Line 1: The --- block is never closed");
+    expect(() => splitFrontmatter("---\nvariables:\n  org: [acme\n---")).toThrow(/^Line \d+: /);
+    expect(() => splitFrontmatter("---\n- pnpm\n---")).toThrow("Line 2: Frontmatter must be a mapping of config options");
+  });
+
+  it("is skipped by parseTree, which still reports the right lines", () => {
+    const cfg = { cwd: "/tmp", targetDir: "/tmp", tabIndentationSize: 2, detectAsciiGuides: true } as ForgeConfig;
+    expect(() => parseTree(TREE, cfg)).toThrow(/Line 11: Path "app\/src" is duplicated/);
+    expect(parseTree(TREE.replace(/\n  src\/$/, ""), cfg).map(n => n.path)).toEqual(["app"]);
+  });
+});
+
+describe("loadTreeConfig", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  it("reads the frontmatter of a tree file or tree text", async () => {
+    writeFileSync(path.join(tmp.dir, "app.tree"), "---\ngenerateDotfiles: false\npackageManager: pnpm\n---\napp/\n");
+    expect(await loadTreeConfig({ cwd: "/", treeFile: path.join(tmp.dir, "app.tree") })).toEqual({
+      generateDotfiles: false,
+      packageManager: "pnpm"
+    });
+    expect(await loadTreeConfig({ cwd: tmp.dir, treeText: "app/" })).toEqual({});
+    expect(await loadTreeConfig({ cwd: tmp.dir, treeFile: "missing.tree" })).toEqual({});
+  });
+
+  it("reports invalid options with their line", async () => {
+    const text = "---\ngenerateDotfiles: false\npackageManager: bun\ntreeFile: other.tree\n---\napp/";
+    await expect(loadTreeConfig({ cwd: tmp.dir, treeText: text })).rejects.toThrow(
+      'Invalid frontmatter in --tree:\nLine 3: "packageManager": Expected one of "pnpm", "yarn", "npm", got "bun"\n  packageManager: bun\n' +
+      'Line 4: "treeFile": Not allowed in tree frontmatter\n  treeFile: other.tree'
+    );
+  });
+
+  it("rejects options outside the allowlist, such as safety switches", async () => {
+    const text = "---\nallowOutside: true\noverwriteMode: force\n---\napp/\n  ../../escape.txt";
+    await expect(loadTreeConfig({ cwd: tmp.dir, treeText: text })).rejects.toThrow(
+      'Invalid frontmatter in --tree:\nLine 2: "allowOutside": Not allowed in tree frontmatter\n  allowOutside: true\n' +
+      'Line 3: "overwriteMode": Not allowed in tree frontmatter\n  overwriteMode: force'
+    );
+  });
+});
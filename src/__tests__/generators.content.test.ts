@@ -0,0 +1,105 @@
+// src/__tests__/generators.content.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, symlinkSync, writeFileSync } from "fs";
+import path from "path";
+import { planFromTree } from "../generators.js";
+import { parseTree } from "../parser.js";
+import { gitignore } from "../templates.js";
+import type { ForgeConfig, PlanAction } from "../types.js";
+import { makeTmpDir } from "./helpers.js";
+
+describe("planFromTree with declared content", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  const cfgFor = (extra: Partial<ForgeConfig> = {}): ForgeConfig => ({
+    cwd: tmp.dir,
+    targetDir: tmp.dir,
+    dryRun: true,
+    yes: true,
+    tabIndentationSize: 2,
+    detectAsciiGuides: true,
+    runDetectors: false,
+    generateDotfiles: false,
+    quiet: true,
+    ...extra
+  });
+
+  const writes = (plan: PlanAction[]) =>
+    Object.fromEntries(
+      plan.flatMap(a => (a.type === "write" ? [[path.basename(a.path), a.content]] : []))
+    );
+
+  it("writes inline, referenced and template content", () => {
+    mkdirSync(path.join(tmp.dir, "trees", "templates"), { recursive: true });
+    writeFileSync(path.join(tmp.dir, "trees", "templates", "main.ts"), "console.log(1);\n");
+    const treeFile = path.join(tmp.dir, "trees", "app.tree");
+
+    const text = [
+      "app/",
+      "  index.ts <= templates/main.ts",
+      "  .gitignore @template:gitignore",
+      "  notes.txt <<EOF",
+      "    hello",
+      "  EOF",
+      "  empty.json"
+    ].join("\n");
+    const cfg = cfgFor({ treeFile });
+    const files = writes(planFromTree(parseTree(text, cfg), cfg));
+
+    expect(files["index.ts"]).toBe("console.log(1);\n");
+    expect(files[".gitignore"]).toBe(gitignore);
+    expect(files["notes.txt"]).toBe("hello\n");
+    expect(files["empty.json"]).toBe("{}\n");
+  });
+
+  it("only reads content files under the tree file's directory or templateDir", () => {
+    mkdirSync(path.join(tmp.dir, "trees"));
+    mkdirSync(path.join(tmp.dir, "tpl"));
+    writeFileSync(path.join(tmp.dir, "secret.txt"), "token\n");
+    writeFileSync(path.join(tmp.dir, "tpl", "main.ts"), "export {};\n");
+    symlinkSync(path.join(tmp.dir, "secret.txt"), path.join(tmp.dir, "trees", "link.txt"));
+    const cfg = cfgFor({ treeFile: path.join(tmp.dir, "trees", "app.tree"), templateDir: path.join(tmp.dir, "tpl") });
+    const plan = (line: string, extra: Partial<ForgeConfig> = {}) =>
+      planFromTree(parseTree(`app/\n  ${line}`, cfg), { ...cfg, ...extra });
+
+    expect(() => plan("key.txt <= ../secret.txt")).toThrow(/Refusing to read \.\.\/secret\.txt .*outside the tree file's directory/);
+    expect(() => plan(`key.txt <= ${path.join(tmp.dir, "secret.txt")}`)).toThrow(/outside the tree file's directory/);
+    expect(() => plan("key.txt <= link.txt")).toThrow(/outside the tree file's directory/);
+    expect(writes(plan("main.ts <= ../tpl/main.ts"))["main.ts"]).toBe("export {};\n");
+    expect(writes(plan("key.txt <= ../secret.txt", { allowOutside: true }))["key.txt"]).toBe("token\n");
+  });
+
+  it("prefers templates from templateDir over built-ins", () => {
+    mkdirSync(path.join(tmp.dir, "tpl"));
+    writeFileSync(path.join(tmp.dir, "tpl", "gitignore.txt"), "custom\n");
+    const text = "app/\n  .gitignore @template:gitignore";
+    const cfg = cfgFor({ templateDir: path.join(tmp.dir, "tpl") });
+    expect(writes(planFromTree(parseTree(text, cfg), cfg))[".gitignore"]).toBe("custom\n");
+  });
+
+  it("leaves GitHub Actions expressions and unknown variables in content alone", () => {
+    const text = [
+      "app/",
+      "  ci.yml <<EOF",
+      "    run: echo ${{ github.sha }} for {{ name }}",
+      "    if: ${{ github.ref == 'refs/heads/main' }} && {{ undefinedVar }}",
+      "  EOF"
+    ].join("\n");
+    const cfg = cfgFor();
+    expect(writes(planFromTree(parseTree(text, cfg), cfg))["ci.yml"]).toBe(
+      "run: echo ${{ github.sha }} for ci.yml\nif: ${{ github.ref == 'refs/heads/main' }} && {{ undefinedVar }}\n"
+    );
+  });
+
+  it("fails on missing sources and unknown templates", () => {
+    const cfg = cfgFor();
+    expect(() => planFromTree(parseTree("app/\n  a.ts <= nope.ts", cfg), cfg)).toThrow(/not found/);
+    expect(() => planFromTree(parseTree("app/\n  a.ts @template:nope", cfg), cfg)).toThrow(/Unknown template "nope"/);
+  });
+});
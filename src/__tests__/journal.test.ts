@@ -0,0 +1,103 @@
+// src/__tests__/journal.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, readdirSync, readFileSync } from "fs";
+import path from "path";
+import { applyPlan } from "../utils.js";
+import { loadManifest, rollbackManifest, MANIFEST_DIR } from "../journal.js";
+import type { PlanAction } from "../types.js";
+import { makeTmpDir, listFilesRecursive, read, exists } from "./helpers.js";
+
+describe("transactional applyPlan", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  const manifestFiles = () =>
+    readdirSync(path.join(tmp.dir, MANIFEST_DIR))
+      .filter(f => f.endsWith(".json"))
+      .map(f => path.join(tmp.dir, MANIFEST_DIR, f));
+
+  it("rolls back created files and directories when a step fails", async () => {
+    const existing = path.join(tmp.dir, "README.md");
+    writeFileSync(existing, "original\n");
+
+    const plan: PlanAction[] = [
+      { type: "mkdir", path: path.join(tmp.dir, "app", "src") },
+      { type: "write", path: path.join(tmp.dir, "app", "src", "index.ts"), content: "export {};\n" },
+      { type: "write", path: existing, content: "changed\n" },
+      { type: "exec", cwd: tmp.dir, cmd: "node", args: ["-e", "process.exit(3)"] }
+    ];
+
+    await expect(
+      applyPlan(plan, false, undefined, { targetDir: tmp.dir, transactional: true, overwriteMode: "force" })
+    ).rejects.toThrow();
+
+    expect(exists(path.join(tmp.dir, "app"))).toBe(false);
+    expect(read(existing)).toBe("original\n");
+
+    const [manifestFile] = manifestFiles();
+    const manifest = loadManifest(manifestFile);
+    expect(manifest.status).toBe("rolled-back");
+    expect(manifest.entries.map(e => e.type)).toEqual(["mkdir", "mkdir", "create", "overwrite", "exec"]);
+  });
+
+  it("undoes a completed run from its manifest", async () => {
+    const plan: PlanAction[] = [
+      { type: "write", path: path.join(tmp.dir, "pkg", "a.txt"), content: "a" },
+      { type: "write", path: path.join(tmp.dir, "pkg", "b.txt"), content: "b" }
+    ];
+    const { manifestFile } = await applyPlan(plan, false, undefined, { targetDir: tmp.dir, transactional: true });
+    expect(manifestFile).toBeDefined();
+    expect(loadManifest(manifestFile!).status).toBe("completed");
+
+    writeFileSync(path.join(tmp.dir, "pkg", "b.txt"), "edited by hand");
+
+    const result = await rollbackManifest(loadManifest(manifestFile!));
+    expect(result.undone).toEqual([path.join(tmp.dir, "pkg", "a.txt")]);
+    expect(result.kept.map(k => k.reason)).toEqual(["File changed since the run", "Directory is not empty"]);
+    expect(read(path.join(tmp.dir, "pkg", "b.txt"))).toBe("edited by hand");
+
+    await rollbackManifest(loadManifest(manifestFile!), { force: true });
+    expect(exists(path.join(tmp.dir, "pkg"))).toBe(false);
+  });
+
+  it("restores binary files and removed directories byte for byte", async () => {
+    const logo = path.join(tmp.dir, "logo.png");
+    const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe]);
+    writeFileSync(logo, bytes);
+    mkdirSync(path.join(tmp.dir, "assets", "icons"), { recursive: true });
+    writeFileSync(path.join(tmp.dir, "assets", "icons", "a.ico"), bytes);
+    writeFileSync(path.join(tmp.dir, "assets", "notes.txt"), "keep me\n");
+
+    const plan: PlanAction[] = [
+      { type: "write", path: logo, content: "not a png" },
+      { type: "remove", path: path.join(tmp.dir, "assets") }
+    ];
+    const { manifestFile } = await applyPlan(plan, false, undefined, {
+      targetDir: tmp.dir,
+      transactional: true,
+      overwriteMode: "force"
+    });
+    expect(exists(path.join(tmp.dir, "assets"))).toBe(false);
+
+    const result = await rollbackManifest(loadManifest(manifestFile!));
+    expect(result.kept).toEqual([]);
+    expect(readFileSync(logo)).toEqual(bytes);
+    expect(readFileSync(path.join(tmp.dir, "assets", "icons", "a.ico"))).toEqual(bytes);
+    expect(read(path.join(tmp.dir, "assets", "notes.txt"))).toBe("keep me\n");
+  });
+
+  it("does not journal dry runs", async () => {
+    mkdirSync(path.join(tmp.dir, "x"));
+    const result = await applyPlan([{ type: "mkdir", path: path.join(tmp.dir, "x", "y") }], true, undefined, {
+      targetDir: tmp.dir,
+      transactional: true
+    });
+    expect(result.manifestFile).toBeUndefined();
+    expect(listFilesRecursive(tmp.dir)).toEqual([]);
+  });
+});
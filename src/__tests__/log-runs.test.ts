@@ -0,0 +1,166 @@
+// src/__tests__/log-runs.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { createRunId, listRunIds, pruneRuns, rotateLogFile, runStartedAt, RUNS_DIR } from "../log-runs.js";
+import { Logger } from "../logger.js";
+import { Cache } from "../cache.js";
+import { makeTmpDir, read } from "./helpers.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("run IDs", () => {
+  it("start with the run's start time and sort by it", () => {
+    const earlier = createRunId(new Date("2024-05-01T10:00:00.000Z"));
+    const later = createRunId(new Date("2024-05-01T10:00:00.001Z"));
+
+    expect(earlier).toMatch(/^2024-05-01T10-00-00-000Z-[0-9a-f]{6}$/);
+    expect(runStartedAt(earlier)?.toISOString()).toBe("2024-05-01T10:00:00.000Z");
+    expect([later, earlier].sort()).toEqual([earlier, later]);
+    expect(runStartedAt("forge-tree.log")).toBeUndefined();
+  });
+});
+
+describe("log rotation and retention", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  it("rotates the shared file by size, keeping a limited number of old ones", () => {
+    const file = path.join(tmp.dir, "forge-tree.log");
+    for (const run of ["one", "two", "three"]) {
+      writeFileSync(file, `${run}\n`);
+      expect(rotateLogFile(file, { maxSize: 1, keep: 2 })).toBe(true);
+    }
+
+    expect(existsSync(file)).toBe(false);
+    expect(read(`${file}.1`)).toBe("three\n");
+    expect(read(`${file}.2`)).toBe("two\n");
+    expect(existsSync(`${file}.3`)).toBe(false);
+  });
+
+  it("rotates by the age of the oldest entry", () => {
+    const file = path.join(tmp.dir, "forge-tree.log");
+    writeFileSync(file, "[2024-05-01T10:00:00.000Z] [INFO] Session Started\n");
+
+    expect(rotateLogFile(file, { maxAgeDays: 30 }, new Date("2024-05-20T00:00:00.000Z"))).toBe(false);
+    expect(rotateLogFile(file, { maxAgeDays: 30 }, new Date("2024-06-20T00:00:00.000Z"))).toBe(true);
+    expect(existsSync(`${file}.1`)).toBe(true);
+  });
+
+  it("prunes the oldest run directories but never the current one", () => {
+    const now = new Date("2024-05-10T00:00:00.000Z");
+    const ids = [9, 5, 2, 1].map(days => createRunId(new Date(now.getTime() - days * DAY)));
+    ids.forEach(id => mkdirSync(path.join(tmp.dir, RUNS_DIR, id), { recursive: true }));
+
+    expect(pruneRuns(tmp.dir, { maxRuns: 3 }, ids[3], now)).toEqual([ids[0]]);
+    expect(pruneRuns(tmp.dir, { maxAgeDays: 3 }, ids[3], now)).toEqual([ids[1]]);
+    expect(listRunIds(tmp.dir)).toEqual([ids[2], ids[3]]);
+  });
+
+  it("writes each run to its own directory, stamping the run ID on every entry", async () => {
+    const logger = new Logger({ file: "forge-tree.log", format: "json", console: false, perRun: true }, tmp.dir);
+    logger.info("Directory Created", { target: "app" });
+    await logger.close();
+
+    expect(logger.filePath).toBe(path.join(tmp.dir, RUNS_DIR, logger.runId, "forge-tree.log"));
+    const entries = read(logger.filePath!).trim().split("\n").map(line => JSON.parse(line));
+    expect(entries.map(e => e.action)).toEqual(["Session Started", "Directory Created"]);
+    entries.forEach(e => expect(e.runId).toBe(logger.runId));
+  });
+
+  it("appends runs to the shared file, telling them apart by run ID", async () => {
+    const runs = [];
+    for (let i = 0; i < 2; i++) {
+      const logger = new Logger({ file: "forge-tree.log", console: false }, tmp.dir);
+      logger.info("Done");
+      await logger.close();
+      runs.push(logger.runId);
+    }
+
+    const lines = read(path.join(tmp.dir, "forge-tree.log")).trim().split("\n");
+    expect(lines).toHaveLength(4);
+    expect(lines.filter(line => line.includes(`[run ${runs[0]}]`))).toHaveLength(2);
+  });
+});
+
+describe("Cache run registry", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  it("remembers runs newest first and finds them by ID prefix", async () => {
+    const cache = new Cache({ path: path.join(tmp.dir, "cache.json"), runLimit: 2 });
+    await cache.load();
+    const run = (id: string) => ({ id, targetDir: tmp.dir, startedAt: "2024-05-01T10:00:00.000Z", logFile: path.join(tmp.dir, `${id}.log`) });
+
+    await cache.updateRun(run("2024-05-01T10-00-00-000Z-aaaaaa"));
+    await cache.updateRun(run("2024-05-02T10-00-00-000Z-bbbbbb"));
+    await cache.updateRun(run("2024-05-03T10-00-00-000Z-cccccc"));
+
+    expect(cache.getRecentRuns().map(r => r.id)).toEqual(["2024-05-03T10-00-00-000Z-cccccc", "2024-05-02T10-00-00-000Z-bbbbbb"]);
+    expect(cache.findRun("latest")?.id).toBe("2024-05-03T10-00-00-000Z-cccccc");
+    expect(cache.findRun("2024-05-02")?.id).toBe("2024-05-02T10-00-00-000Z-bbbbbb");
+    expect(cache.findRun("2024-05")).toBeUndefined();
+    expect(cache.getLastLogFile()).toBe(path.join(tmp.dir, "2024-05-03T10-00-00-000Z-cccccc.log"));
+
+    // Cleanup keeps the runs but forgets files that no longer exist
+    writeFileSync(path.join(tmp.dir, "2024-05-02T10-00-00-000Z-bbbbbb.log"), "");
+    await cache.cleanup();
+    expect(cache.getRecentRuns().map(r => !!r.logFile)).toEqual([false, true]);
+  });
+
+  it("updates a run in place when it finishes, even from an exit handler", async () => {
+    const file = path.join(tmp.dir, "cache.json");
+    const cache = new Cache({ path: file });
+    await cache.load();
+    await cache.updateRun({ id: "2024-05-01T10-00-00-000Z-aaaaaa", targetDir: tmp.dir, startedAt: "2024-05-01T10:00:00.000Z", outcome: "running" });
+    await cache.updateRun({ id: "2024-05-02T10-00-00-000Z-bbbbbb", targetDir: tmp.dir, startedAt: "2024-05-02T10:00:00.000Z", outcome: "running" });
+    cache.updateRunSync({ id: "2024-05-01T10-00-00-000Z-aaaaaa", targetDir: tmp.dir, startedAt: "2024-05-01T10:00:00.000Z", outcome: "failed", durationMs: 12 });
+
+    const reloaded = new Cache({ path: file });
+    await reloaded.load();
+    expect(reloaded.getRecentRuns().map(r => [r.id, r.outcome])).toEqual([
+      ["2024-05-02T10-00-00-000Z-bbbbbb", "running"],
+      ["2024-05-01T10-00-00-000Z-aaaaaa", "failed"]
+    ]);
+  });
+
+  it("keeps runs recorded by other processes when finishing its own", async () => {
+    const file = path.join(tmp.dir, "cache.json");
+    const first = new Cache({ path: file });
+    const second = new Cache({ path: file });
+    await first.load();
+    await second.load();
+    await first.updateRun({ id: "2024-05-01T10-00-00-000Z-aaaaaa", targetDir: tmp.dir, startedAt: "2024-05-01T10:00:00.000Z", outcome: "running" });
+    await second.updateRun({ id: "2024-05-02T10-00-00-000Z-bbbbbb", targetDir: tmp.dir, startedAt: "2024-05-02T10:00:00.000Z", outcome: "running" });
+    first.updateRunSync({ id: "2024-05-01T10-00-00-000Z-aaaaaa", targetDir: tmp.dir, startedAt: "2024-05-01T10:00:00.000Z", outcome: "succeeded" });
+
+    const reloaded = new Cache({ path: file });
+    await reloaded.load();
+    expect(reloaded.getRecentRuns().map(r => [r.id, r.outcome])).toEqual([
+      ["2024-05-02T10-00-00-000Z-bbbbbb", "running"],
+      ["2024-05-01T10-00-00-000Z-aaaaaa", "succeeded"]
+    ]);
+  });
+
+  it("saves run trees beside the cache file and drops them with their run", async () => {
+    const cache = new Cache({ path: path.join(tmp.dir, "cache.json"), runLimit: 1 });
+    await cache.load();
+    const copy = await cache.saveRunTree("2024-05-01T10-00-00-000Z-aaaaaa", "app/\n  .env <<EOF\n    API_KEY=[REDACTED]\n  EOF");
+    expect(copy).toBe(path.join(tmp.dir, "runs", "2024-05-01T10-00-00-000Z-aaaaaa", "tree.txt"));
+    await cache.updateRun({ id: "2024-05-01T10-00-00-000Z-aaaaaa", targetDir: tmp.dir, startedAt: "2024-05-01T10:00:00.000Z", tree: { hash: "x", copy } });
+    expect(read(path.join(tmp.dir, "cache.json"))).not.toContain("API_KEY");
+
+    await cache.updateRun({ id: "2024-05-02T10-00-00-000Z-bbbbbb", targetDir: tmp.dir, startedAt: "2024-05-02T10:00:00.000Z" });
+    expect(existsSync(path.dirname(copy))).toBe(false);
+  });
+});
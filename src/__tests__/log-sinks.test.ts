@@ -0,0 +1,80 @@
+// src/__tests__/log-sinks.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import path from "path";
+import { FileSink, MemorySink, NdjsonSink } from "../log-sinks.js";
+import { Logger, endRunLogger, getRunLogger, startRunLogger } from "../logger.js";
+import { planFromTree } from "../generators.js";
+import type { ForgeConfig, LogEntry } from "../types.js";
+import { makeTmpDir, read } from "./helpers.js";
+
+const entry = (action: string): LogEntry => ({ timestamp: "2026-01-01T00:00:00.000Z", level: "info", action });
+
+describe("log sinks", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  it("buffers file writes and keeps their order", async () => {
+    const file = path.join(tmp.dir, "logs", "run.log");
+    const sink = new FileSink(file, { truncate: true });
+    for (let i = 0; i < 5; i++) sink.write(entry(`step ${i}`), `line ${i}`);
+    expect(read(file)).toBe("");
+
+    await sink.close();
+    expect(read(file)).toBe("line 0\nline 1\nline 2\nline 3\nline 4\n");
+  });
+
+  it("writes NDJSON regardless of the logger format", async () => {
+    const file = path.join(tmp.dir, "run.ndjson");
+    const logger = new Logger({ format: "text", console: false, file: undefined }, tmp.dir, [new NdjsonSink(file)]);
+    logger.info("First", { target: "a.ts" });
+    logger.warn("Second");
+    await logger.close();
+
+    const lines = read(file).trim().split("\n").map(line => JSON.parse(line));
+    expect(lines.map(l => [l.level, l.action])).toEqual([["info", "First"], ["warn", "Second"]]);
+    expect(lines[0].target).toBe("a.ts");
+  });
+
+  it("accepts in-memory and function sinks, which only get redacted entries", () => {
+    const memory = new MemorySink();
+    const seen: string[] = [];
+    const logger = new Logger({ console: false }, tmp.dir, [memory, (_, formatted) => seen.push(formatted)]);
+    logger.info("Command executed", { metadata: { env: { NPM_TOKEN: "abc" } } });
+
+    expect(memory.entries).toHaveLength(1);
+    expect(memory.entries[0].metadata).toEqual({ env: { NPM_TOKEN: "[REDACTED]" } });
+    expect(JSON.stringify(memory.entries)).not.toContain("abc");
+    expect(seen[0]).toContain("Command executed");
+  });
+});
+
+describe("run logger", () => {
+  afterEach(() => endRunLogger());
+
+  it("is shared by everything that logs during the run", () => {
+    const memory = new MemorySink();
+    const cfg = { targetDir: "/tmp/project", logging: { enabled: true, level: "debug" } } as ForgeConfig;
+    const logger = startRunLogger(cfg.logging, cfg.targetDir, [memory]);
+
+    expect(getRunLogger(cfg)).toBe(logger);
+    planFromTree([{ name: "app", path: "/tmp/project/app", kind: "dir", children: [] }], cfg);
+    logger.logDirectoryCreated("/tmp/project/app");
+
+    const actions = memory.entries.map(e => e.action);
+    expect(actions.slice(0, -1).every(action => action === "Node Planned")).toBe(true);
+    expect(actions.at(-1)).toBe("Directory Created");
+    // Planning doesn't count as creating anything
+    expect(logger.getMetrics().fsOperations.directories.created).toBe(1);
+  });
+
+  it("falls back to one logger per config outside a run", () => {
+    const cfg = { targetDir: "/tmp/project", logging: { enabled: false } } as ForgeConfig;
+    expect(getRunLogger(cfg)).toBe(getRunLogger(cfg));
+    expect(getRunLogger({ ...cfg })).not.toBe(getRunLogger(cfg));
+  });
+});
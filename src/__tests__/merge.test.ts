@@ -0,0 +1,131 @@
+// src/__tests__/merge.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { writeFileSync } from "fs";
+import path from "path";
+import { mergeFileContent, mergeKindFor } from "../merge.js";
+import { applyPlan } from "../utils.js";
+import { editorconfig, gitignore, prettierrc } from "../templates.js";
+import type { PlanAction } from "../types.js";
+import { makeTmpDir, read } from "./helpers.js";
+
+describe("semantic merges", () => {
+  it("only applies when the matching preserve option is set", () => {
+    expect(mergeKindFor("app/.gitignore", {})).toBeUndefined();
+    expect(mergeKindFor("app/.gitignore", { preserveGitIgnore: true })).toBe("gitignore");
+    expect(mergeKindFor("package.json", { preservePackageJson: true })).toBe("package.json");
+    expect(mergeKindFor("tsconfig.build.json", { preserveConfig: true })).toBe("keys");
+    expect(mergeKindFor(".prettierrc.yaml", { preserveConfig: true })).toBe("keys");
+    expect(mergeKindFor("README.md", { preserveConfig: true })).toBeUndefined();
+  });
+
+  it("unions .gitignore entries without duplicates", () => {
+    const result = mergeFileContent("gitignore", ".gitignore", "# deps\nnode_modules\n.env.local", gitignore);
+    expect(result.content.startsWith("# deps\nnode_modules\n.env.local\ndist\n.turbo\n")).toBe(true);
+    expect(result.content.match(/node_modules/g)).toHaveLength(1);
+    expect(result.added).not.toContain("node_modules");
+  });
+
+  it("merges package.json scripts and dependencies and reports version conflicts", () => {
+    const ours = '{\n    "name": "api",\n    "version": "1.4.0",\n    "scripts": { "build": "tsup" },\n    "dependencies": { "zod": "^3.22.0" }\n}\n';
+    const theirs = JSON.stringify({
+      name: "api",
+      version: "0.1.0",
+      scripts: { build: "tsc", dev: "tsc -w" },
+      dependencies: { zod: "^3.23.0", express: "^4.19.0" }
+    });
+    const result = mergeFileContent("package.json", "package.json", ours, theirs);
+    const merged = JSON.parse(result.content);
+
+    expect(merged.version).toBe("1.4.0");
+    expect(merged.scripts).toEqual({ build: "tsup", dev: "tsc -w" });
+    expect(merged.dependencies).toEqual({ zod: "^3.22.0", express: "^4.19.0" });
+    expect(result.content).toMatch(/^ {4}"name"/m);
+    expect(result.added).toEqual(["scripts.dev", "dependencies.express"]);
+    expect(result.conflicts).toEqual([
+      'scripts.build: kept "tsup", generated "tsc"',
+      'dependencies.zod: kept "^3.22.0", generated "^3.23.0"'
+    ]);
+  });
+
+  it("key-merges JSON and YAML config files", () => {
+    const tsconfig = mergeFileContent(
+      "keys",
+      "tsconfig.json",
+      '{ "compilerOptions": { "strict": false } }',
+      JSON.stringify({ compilerOptions: { strict: true, outDir: "dist" }, include: ["src"] })
+    );
+    expect(JSON.parse(tsconfig.content)).toEqual({ compilerOptions: { strict: false, outDir: "dist" }, include: ["src"] });
+    expect(tsconfig.conflicts).toEqual(["compilerOptions.strict: kept false, generated true"]);
+
+    const prettier = mergeFileContent("keys", ".prettierrc", "# team style\nsemi: false\n", prettierrc);
+    expect(prettier.content).toBe("# team style\nsemi: false\nsingleQuote: false\nprintWidth: 100\n");
+  });
+
+  it("adds missing .editorconfig keys and sections in place", () => {
+    const ours = "[*]\nindent_style = tab\n\n[*.md]\ntrim_trailing_whitespace = false\n";
+    const result = mergeFileContent("editorconfig", ".editorconfig", ours, editorconfig + "\n[Makefile]\nindent_style = tab\n");
+    expect(result.content).toBe(
+      "root = true\n\n" +
+      "[*]\nindent_style = tab\ncharset = utf-8\nend_of_line = lf\ninsert_final_newline = true\nindent_size = 2\n\n" +
+      "[*.md]\ntrim_trailing_whitespace = false\n\n" +
+      "[Makefile]\nindent_style = tab\n"
+    );
+    expect(result.conflicts).toEqual(["[*] indent_style: kept tab, generated space"]);
+  });
+
+  it("rejects files it can't parse", () => {
+    expect(() => mergeFileContent("keys", "tsconfig.json", "{ // comment\n}", "{}")).toThrow();
+  });
+});
+
+describe("applyPlan with preserve options", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    tmp.cleanup();
+  });
+
+  it("merges into existing files and logs what changed", async () => {
+    const file = path.join(tmp.dir, ".gitignore");
+    writeFileSync(file, "node_modules\n");
+    const logger = { logFileMerged: vi.fn(), logFileSkipped: vi.fn() };
+
+    await applyPlan([{ type: "write", path: file, content: "dist\nnode_modules\n" }], false, logger, {
+      targetDir: tmp.dir,
+      overwriteMode: "force",
+      preserveGitIgnore: true
+    });
+
+    expect(read(file)).toBe("node_modules\ndist\n");
+    expect(logger.logFileMerged).toHaveBeenCalledWith(file, "gitignore", ["dist"], []);
+  });
+
+  it("falls back to the overwrite policy when the existing file can't be merged", async () => {
+    const file = path.join(tmp.dir, "tsconfig.json");
+    writeFileSync(file, "{ // strict mode\n}\n");
+
+    await applyPlan([{ type: "write", path: file, content: "{}\n" }], false, undefined, {
+      targetDir: tmp.dir,
+      overwriteMode: "skip",
+      preserveConfig: true
+    });
+
+    expect(read(file)).toBe("{ // strict mode\n}\n");
+  });
+
+  it("leaves files alone when skipExisting or --yes skips them", async () => {
+    const file = path.join(tmp.dir, ".gitignore");
+    writeFileSync(file, "node_modules\n");
+    const write: PlanAction = { type: "write", path: file, content: "dist\n" };
+
+    await applyPlan([write], false, undefined, { targetDir: tmp.dir, skipExisting: true, preserveGitIgnore: true });
+    await applyPlan([write], false, undefined, { targetDir: tmp.dir, yes: true, preserveGitIgnore: true });
+    expect(read(file)).toBe("node_modules\n");
+  });
+});
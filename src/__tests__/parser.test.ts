@@ -1,6 +1,6 @@
 // src/__tests__/parser.test.ts
 import { describe, it, expect } from "vitest";
-import { parseTree } from "../parser.js";
+import { interpolateTree, parseTree, parseTreeWithReport } from "../parser.js";
 import type { ForgeConfig } from "../types.js";
 import path from "path";
 
@@ -137,3 +137,251 @@ describe("parseTree", () => {
     expect(nodes[0].children[0].path).toBe("root/file.txt");
   });
 });
+
+describe("parseTree with path rules", () => {
+  const cfgWith = (extra: Partial<ForgeConfig>): ForgeConfig => ({
+    ...baseCfg("/tmp/any"),
+    logging: { enabled: false, level: "info" },
+    ...extra
+  });
+
+  it("renames duplicate paths with the numbered strategy", () => {
+    const text = ["root/", "  docs/", "    a.md", "  docs/", "    b.md"].join("\n");
+    const { roots, rewrites } = parseTreeWithReport(text, cfgWith({
+      pathConflict: { onDuplicatePath: "numbered", onDuplicateName: "numbered" }
+    }));
+
+    expect(roots[0].children.map(c => c.path)).toEqual(["root/docs", "root/docs-001"]);
+    expect(roots[0].children[1].children[0].path).toBe("root/docs-001/b.md");
+    expect(roots[0].children[1].rewrite).toMatchObject({ from: "root/docs", to: "root/docs-001", strategy: "numbered" });
+    expect(rewrites).toHaveLength(1);
+  });
+
+  it("merges duplicate directories with the merge strategy", () => {
+    const text = ["root/", "  docs/", "    a.md", "  docs/", "    b.md"].join("\n");
+    const { roots, rewrites } = parseTreeWithReport(text, cfgWith({
+      pathConflict: { onDuplicatePath: "merge" }
+    }));
+
+    expect(roots[0].children).toHaveLength(1);
+    expect(roots[0].children[0].children.map(c => c.path)).toEqual(["root/docs/a.md", "root/docs/b.md"]);
+    expect(rewrites[0]).toMatchObject({ from: "root/docs", to: "root/docs", strategy: "merge" });
+  });
+
+  it("drops duplicates with the skip strategy", () => {
+    const text = ["root/", "  a.md", "  a.md"].join("\n");
+    const { roots, rewrites } = parseTreeWithReport(text, cfgWith({
+      pathConflict: { onDuplicatePath: "skip" }
+    }));
+
+    expect(roots[0].children).toHaveLength(1);
+    expect(rewrites[0]).toMatchObject({ from: "root/a.md", to: null, strategy: "skip" });
+  });
+
+  it("transliterates invalid characters in names", () => {
+    const text = ["root/", "  résumé.md"].join("\n");
+    const { roots } = parseTreeWithReport(text, cfgWith({
+      pathConflict: { onInvalidChars: "transliterate", transliterationMap: { "é": "e" } }
+    }));
+
+    expect(roots[0].children[0].name).toBe("resume.md");
+    expect(roots[0].children[0].path).toBe("root/resume.md");
+  });
+
+  it("rejects violations that have no resolving strategy", () => {
+    const text = ["root/", "  a/", "    b/", "      c.txt"].join("\n");
+    expect(() => parseTree(text, cfgWith({ pathValidation: { maxDepth: 3 } })))
+      .toThrow(/maximum depth of 3/);
+    expect(() => parseTree(text, cfgWith({ pathValidation: { enforceCase: "lower" } })))
+      .not.toThrow();
+  });
+});
+
+describe("parseTree with file content", () => {
+  it("attaches heredoc blocks verbatim, comments included", () => {
+    const text = [
+      "app/",
+      "  README.md <<EOF",
+      "    # App",
+      "",
+      "    Run it: // not a comment",
+      "  EOF",
+      "  src/",
+      "    index.ts"
+    ].join("\n");
+
+    const nodes = parseTree(text, { ...baseCfg("/tmp/any"), treeText: text });
+    const readme = nodes[0].children[0];
+    expect(readme.name).toBe("README.md");
+    expect(readme.content).toEqual({ type: "inline", text: "# App\n\nRun it: // not a comment\n" });
+    expect(nodes[0].children.map(c => c.name)).toEqual(["README.md", "src"]);
+    expect(nodes[0].children[1].children[0].content).toBeUndefined();
+  });
+
+  it("parses file references and template hints", () => {
+    const text = [
+      "app/",
+      "  package.json <= templates/package.json.hbs",
+      "  .gitignore @template:gitignore",
+      "  Dockerfile <<'END'",
+      "  FROM node:20",
+      "  END"
+    ].join("\n");
+
+    const nodes = parseTree(text, { ...baseCfg("/tmp/any"), treeText: text });
+    const [pkg, ignore, docker] = nodes[0].children;
+    expect(pkg.content).toEqual({ type: "file", source: "templates/package.json.hbs" });
+    expect(ignore.content).toEqual({ type: "template", name: "gitignore" });
+    expect(docker.kind).toBe("file");
+    expect(docker.content).toEqual({ type: "inline", text: "FROM node:20\n" });
+  });
+
+  it("rejects unterminated heredocs", () => {
+    const text = ["app/", "  a.txt <<EOF", "  hello"].join("\n");
+    expect(() => parseTree(text, { ...baseCfg("/tmp/any"), treeText: text }))
+      .toThrow(/Heredoc "EOF" is never closed/);
+  });
+});
+
+describe("parseTree node kinds", () => {
+  const kinds = (text: string, extra: Partial<ForgeConfig> = {}) => {
+    const { roots, warnings } = parseTreeWithReport(text, { ...baseCfg("/tmp/any"), treeText: text, ...extra });
+    const out: Record<string, string> = {};
+    const walk = (n: typeof roots[number]) => {
+      out[n.path] = n.kind;
+      n.children.forEach(walk);
+    };
+    roots.forEach(walk);
+    return { kinds: out, warnings };
+  };
+
+  it("knows extensionless files and lets structure beat dots in names", () => {
+    const text = [
+      "app/",
+      "  Dockerfile",
+      "  Makefile",
+      "  LICENSE",
+      "  v1.2/",
+      "  releases",
+      "    notes.md",
+      "  bin",
+      "    serve @file",
+      "  docs.d",
+      "    index.md"
+    ].join("\n");
+
+    const { kinds: result, warnings } = kinds(text);
+    expect(result).toEqual({
+      "app": "dir",
+      "app/Dockerfile": "file",
+      "app/Makefile": "file",
+      "app/LICENSE": "file",
+      "app/v1.2": "dir",
+      "app/releases": "dir",
+      "app/releases/notes.md": "file",
+      "app/bin": "dir",
+      "app/bin/serve": "file",
+      "app/docs.d": "dir",
+      "app/docs.d/index.md": "file"
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it("warns about ambiguous lines with their line number", () => {
+    const text = [
+      "app/",
+      "  /* generated",
+      "     by hand */",
+      "  v1.2",
+      "  scripts",
+      "  Taskfile"
+    ].join("\n");
+
+    const { kinds: result, warnings } = kinds(text, { extensionlessFiles: ["Taskfile"] });
+    expect(result["app/v1.2"]).toBe("file");
+    expect(result["app/scripts"]).toBe("dir");
+    expect(result["app/Taskfile"]).toBe("file");
+    expect(warnings.filter(w => w.context !== undefined && !w.message.startsWith("Multiline")).map(w => [w.line, w.context]))
+      .toEqual([[4, "v1.2"], [5, "scripts"]]);
+  });
+
+  it("rejects contradictory markers", () => {
+    const cfg = baseCfg("/tmp/any");
+    expect(() => parseTree("app/\n  serve @file\n    main.ts", cfg)).toThrow(/Line 2: "serve" is marked as a file but has children/);
+    expect(() => parseTree("app/\n  conf/ <<EOF\n  x\n  EOF", cfg)).toThrow(/Line 2: Directory "conf" cannot have file content/);
+  });
+});
+
+describe("parseTree expansion", () => {
+  it("replicates children into every expansion with unique paths", () => {
+    const text = [
+      "repo/",
+      "  packages/{core,ui}/",
+      "    src/",
+      "      {index,types}.ts",
+      "    package.json",
+      "  services/svc-[1..2]/",
+      "    Dockerfile"
+    ].join("\n");
+
+    const nodes = parseTree(text, { ...baseCfg("/tmp/any"), treeText: text });
+    const paths: string[] = [];
+    const walk = (n: typeof nodes[number]) => {
+      paths.push(`${n.path}:${n.kind}`);
+      n.children.forEach(walk);
+    };
+    nodes.forEach(walk);
+    expect(paths).toEqual([
+      "repo:dir",
+      "repo/packages/core:dir",
+      "repo/packages/core/src:dir",
+      "repo/packages/core/src/index.ts:file",
+      "repo/packages/core/src/types.ts:file",
+      "repo/packages/core/package.json:file",
+      "repo/packages/ui:dir",
+      "repo/packages/ui/src:dir",
+      "repo/packages/ui/src/index.ts:file",
+      "repo/packages/ui/src/types.ts:file",
+      "repo/packages/ui/package.json:file",
+      "repo/services/svc-1:dir",
+      "repo/services/svc-1/Dockerfile:file",
+      "repo/services/svc-2:dir",
+      "repo/services/svc-2/Dockerfile:file"
+    ]);
+    expect(nodes[0].children[1].expandedFrom).toBe("packages/{core,ui}/");
+  });
+
+  it("reports duplicates made by an expansion with the line it came from", () => {
+    const text = ["repo/", "  ui/", "  {core,ui}/"].join("\n");
+    expect(() => parseTree(text, { ...baseCfg("/tmp/any"), treeText: text }))
+      .toThrow(/Line 3: Path "repo\/ui" is duplicated. First occurrence: ui \(line 2\), Current: ui\n  Expanded from "\{core,ui\}\/"/);
+  });
+});
+
+describe("parseTree variables", () => {
+  const cfg = { ...baseCfg("/tmp/acme"), variables: { projectName: "Acme Store", appName: "admin" } };
+
+  it("fills placeholders in names before paths are built, leaving heredocs alone", () => {
+    const text = [
+      "{{ projectName | kebabCase }}/",
+      "  apps/{{appName}}/  # {{ notAVariable }}",
+      "    {{ appName | pascalCase }}.tsx <<EOF",
+      "      export const name = \"{{ name }}\";",
+      "    EOF",
+      "  {{name}}.config.json"
+    ].join("\n");
+
+    const [root] = parseTree(text, { ...cfg, treeText: text });
+    expect(root.path).toBe("acme-store");
+    expect(root.children.map(c => c.path)).toEqual(["acme-store/apps/admin", "acme-store/acme.config.json"]);
+    expect(root.children[0].children[0].name).toBe("Admin.tsx");
+    expect(root.children[0].children[0].content).toEqual({ type: "inline", text: "export const name = \"{{ name }}\";\n" });
+    expect(interpolateTree(text, cfg).split("\n")[3]).toBe("      export const name = \"{{ name }}\";");
+  });
+
+  it("reports unresolved placeholders with their line", () => {
+    const text = ["{{projectName}}/", "", "  services/{{ serviceName }}/"].join("\n");
+    expect(() => parseTree(text, { ...cfg, treeText: text }))
+      .toThrow(/Line 3: Unresolved variable "serviceName" in \{\{ serviceName \}\}: pass --var serviceName=<value> or set it in variables\n  services\/\{\{ serviceName \}\}\//);
+  });
+});
@@ -0,0 +1,75 @@
+// src/__tests__/plan-file.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { writeFileSync } from "fs";
+import path from "path";
+import { checkPlanFile, createPlanFile, loadPlanFile, writePlanFile } from "../plan-file.js";
+import type { ForgeConfig, PlanAction, TreeNode } from "../types.js";
+import { makeTmpDir } from "./helpers.js";
+
+describe("plan files", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+  let cfg: ForgeConfig;
+  const roots: TreeNode[] = [{ name: "app", path: "app", kind: "dir", children: [] }];
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+    cfg = { targetDir: tmp.dir, overwriteMode: "skip", backup: true } as ForgeConfig;
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  const makePlan = (treeSource = "app/") => {
+    const actions: PlanAction[] = [
+      { type: "mkdir", path: path.join(tmp.dir, "app") },
+      { type: "exec", cwd: "app", cmd: "npm", args: ["init", "-y"] }
+    ];
+    return createPlanFile({
+      cfg,
+      roots,
+      treeSource,
+      actions,
+      originOf: (a) => a.type === "exec" ? { source: "detector", detectorId: "npm", node: "app" } : { source: "tree", node: "app" },
+      planFile: path.join(tmp.dir, "forge-tree.plan.json")
+    });
+  };
+
+  it("records resolved actions with their origin and the apply settings", () => {
+    const plan = makePlan();
+    expect(plan.version).toBe(1);
+    expect(plan.config).toMatchObject({ overwriteMode: "skip", backup: true });
+    expect(plan.actions[1]).toEqual({
+      action: { type: "exec", cwd: path.resolve("app"), cmd: "npm", args: ["init", "-y"] },
+      origin: { source: "detector", detectorId: "npm", node: "app" }
+    });
+  });
+
+  it("detects changes to the target directory but not to forge-tree's own files", async () => {
+    const file = path.join(tmp.dir, "forge-tree.plan.json");
+    writePlanFile(file, makePlan());
+    writeFileSync(path.join(tmp.dir, "forge-tree.log"), "log");
+
+    const plan = loadPlanFile(file);
+    expect((await checkPlanFile(plan)).targetChanged).toBe(false);
+
+    writeFileSync(path.join(tmp.dir, "README.md"), "new");
+    expect((await checkPlanFile(plan)).targetChanged).toBe(true);
+  });
+
+  it("compares the tree file with its includes spliced in", async () => {
+    const treeFile = path.join(tmp.dir, "project.tree");
+    writeFileSync(treeFile, "app/\n  @include parts.tree\n");
+    writeFileSync(path.join(tmp.dir, "parts.tree"), "src/\n");
+    cfg.treeFile = treeFile;
+    const plan = makePlan("app/\n  src/\n");
+    expect((await checkPlanFile(plan)).treeChanged).toBe(false);
+
+    writeFileSync(path.join(tmp.dir, "parts.tree"), "lib/\n");
+    expect((await checkPlanFile(plan)).treeChanged).toBe(true);
+  });
+
+  it("rejects plan files from another version", () => {
+    const file = path.join(tmp.dir, "old.json");
+    writeFileSync(file, JSON.stringify({ version: 2, actions: [] }));
+    expect(() => loadPlanFile(file)).toThrow(/Unsupported plan file version 2/);
+  });
+});
@@ -0,0 +1,69 @@
+// src/__tests__/plan-normalize.test.ts
+import { describe, it, expect } from "vitest";
+import { normalizePlan } from "../plan-normalize.js";
+import type { PlanAction, PlanOrigin } from "../types.js";
+
+describe("normalizePlan", () => {
+  const fromTree: PlanOrigin = { source: "tree", node: "api/src/index.ts" };
+  const fromDetector: PlanOrigin = { source: "detector", detectorId: "service-init", node: "api" };
+
+  const build = () => {
+    const origins = new Map<PlanAction, PlanOrigin>();
+    const add = (action: PlanAction, origin: PlanOrigin) => {
+      origins.set(action, origin);
+      return action;
+    };
+    const plan: PlanAction[] = [
+      add({ type: "mkdir", path: "api/src" }, fromTree),
+      add({ type: "write", path: "api/src/index.ts", content: "" }, fromTree),
+      add({ type: "write", path: "api/tsconfig.json", content: '{ "compilerOptions": { "strict": true } }' }, fromTree),
+      add({ type: "mkdir", path: "api/src" }, fromDetector),
+      add({ type: "write", path: "api/src/index.ts", content: "export {};\n" }, fromDetector),
+      add({ type: "write", path: "api/tsconfig.json", content: '{ "compilerOptions": { "strict": false, "outDir": "dist" } }' }, fromDetector),
+      add({ type: "write", path: "api/.env", content: "PORT=3000\n" }, fromDetector),
+      add({ type: "write", path: "api/.env", content: "PORT=3000\n" }, fromDetector)
+    ];
+    return { plan, origins };
+  };
+
+  it("drops repeated mkdirs and identical writes", () => {
+    const { plan, origins } = build();
+    const result = normalizePlan(plan, origins, "tree");
+
+    expect(result.duplicateDirs).toBe(1);
+    expect(result.duplicateWrites).toBe(1);
+    expect(result.actions.filter(a => a.type === "mkdir")).toHaveLength(1);
+    expect(result.actions.filter(a => a.type === "write" && a.path === "api/.env")).toHaveLength(1);
+  });
+
+  it("keeps one write per path according to the policy", () => {
+    const { plan, origins } = build();
+    const tree = normalizePlan(plan, origins, "tree");
+    expect(tree.actions[1]).toEqual({ type: "write", path: "api/src/index.ts", content: "" });
+    expect(tree.conflicts[0]).toEqual({ path: "api/src/index.ts", kept: fromTree, others: [fromDetector], resolution: "tree wins" });
+
+    const detector = normalizePlan(plan, origins, "detector");
+    expect(detector.actions[1]).toEqual({ type: "write", path: "api/src/index.ts", content: "export {};\n" });
+    expect(detector.conflicts.map(c => c.kept)).toEqual([fromDetector, fromDetector]);
+  });
+
+  it("merges known file types and fills empty tree files", () => {
+    const { plan, origins } = build();
+    const result = normalizePlan(plan, origins, "merge");
+    const [index, tsconfig] = result.actions.filter(a => a.type === "write") as Extract<PlanAction, { type: "write" }>[];
+
+    expect(index.content).toBe("export {};\n");
+    expect(JSON.parse(tsconfig.content)).toEqual({ compilerOptions: { strict: true, outDir: "dist" } });
+    expect(origins.get(tsconfig)).toEqual(fromTree);
+    expect(result.conflicts.map(c => c.resolution)).toEqual(["merged (tree file was empty)", "merged"]);
+  });
+
+  it("lists every conflict with its origins under the error policy", () => {
+    const { plan, origins } = build();
+    expect(() => normalizePlan(plan, origins, "error")).toThrow(
+      "Conflicting writes in plan:\n" +
+      "  api/src/index.ts: tree (api/src/index.ts) vs detector service-init (api)\n" +
+      "  api/tsconfig.json: tree (api/src/index.ts) vs detector service-init (api)"
+    );
+  });
+});
@@ -0,0 +1,75 @@
+// src/__tests__/sync.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { diffTree, loadSyncState, planRemoved, planSync, saveSyncState, ARCHIVE_DIR } from "../sync.js";
+import { parseTree } from "../parser.js";
+import { applyPlan } from "../utils.js";
+import { loadManifest, rollbackManifest } from "../journal.js";
+import type { ForgeConfig } from "../types.js";
+import { makeTmpDir } from "./helpers.js";
+
+describe("sync", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+  let cfg: ForgeConfig;
+  const parse = (lines: string[]) => parseTree(lines.join("\n"), cfg);
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+    cfg = {
+      targetDir: tmp.dir,
+      tabIndentationSize: 2,
+      detectAsciiGuides: true,
+      pathNormalization: { base: "root" },
+      logging: { enabled: false }
+    } as ForgeConfig;
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  it("plans only nodes missing on disk and finds nodes dropped from the tree", () => {
+    const first = parse(["app/", "  src/", "    index.ts", "  old/", "    a.ts", "  notes.md"]);
+    mkdirSync(path.join(tmp.dir, "app", "src"), { recursive: true });
+    mkdirSync(path.join(tmp.dir, "app", "old"));
+    writeFileSync(path.join(tmp.dir, "app", "src", "index.ts"), "edited");
+    writeFileSync(path.join(tmp.dir, "app", "old", "a.ts"), "");
+    mkdirSync(path.join(tmp.dir, "app", "notes.md"));
+    saveSyncState(tmp.dir, first);
+
+    const next = parse(["app/", "  src/", "    index.ts", "    lib/", "      util.ts", "  notes.md"]);
+    const delta = diffTree(next, tmp.dir, loadSyncState(tmp.dir));
+
+    expect(planSync(delta, cfg)).toEqual([
+      { type: "mkdir", path: path.join(tmp.dir, "app/src/lib") },
+      { type: "write", path: path.join(tmp.dir, "app/src/lib/util.ts"), content: "" }
+    ]);
+    expect(delta.unchanged).toBe(3);
+    expect(delta.conflicts).toEqual([{ path: path.join(tmp.dir, "app/notes.md"), expected: "file" }]);
+    expect(delta.removed).toEqual(["app/old"]);
+  });
+
+  it("archives or deletes removed paths through journaled plan steps", async () => {
+    mkdirSync(path.join(tmp.dir, "old"));
+    writeFileSync(path.join(tmp.dir, "old", "a.ts"), "x");
+    writeFileSync(path.join(tmp.dir, "gone.md"), "");
+    expect(planRemoved(["old"], "keep", tmp.dir)).toEqual([]);
+
+    const plan = [...planRemoved(["old"], "archive", tmp.dir), ...planRemoved(["gone.md"], "delete", tmp.dir)];
+    const { manifestFile } = await applyPlan(plan, false, undefined, { targetDir: tmp.dir, transactional: true });
+
+    expect(existsSync(path.join(tmp.dir, "old"))).toBe(false);
+    expect(existsSync(path.join(tmp.dir, "gone.md"))).toBe(false);
+    const [stamp] = readdirSync(path.join(tmp.dir, ARCHIVE_DIR));
+    expect(readFileSync(path.join(tmp.dir, ARCHIVE_DIR, stamp, "old", "a.ts"), "utf8")).toBe("x");
+
+    await rollbackManifest(loadManifest(manifestFile!));
+    expect(readFileSync(path.join(tmp.dir, "old", "a.ts"), "utf8")).toBe("x");
+    expect(existsSync(path.join(tmp.dir, "gone.md"))).toBe(true);
+    expect(existsSync(path.join(tmp.dir, ARCHIVE_DIR, stamp))).toBe(false);
+  });
+
+  it("refuses removals outside the target directory", async () => {
+    const plan = planRemoved(["../elsewhere"], "delete", path.join(tmp.dir, "app"));
+    await expect(applyPlan(plan, false, undefined, { targetDir: path.join(tmp.dir, "app") })).rejects.toThrow(/outside the target directory/);
+  });
+});
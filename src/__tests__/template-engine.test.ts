@@ -0,0 +1,112 @@
+// src/__tests__/template-engine.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { planTemplateDir, renderFileName, renderTemplate, renderTreeLine, templateContext } from "../template-engine.js";
+import type { ForgeConfig } from "../types.js";
+import { makeTmpDir } from "./helpers.js";
+
+describe("renderTemplate", () => {
+  it("outputs variables through filters", () => {
+    const out = renderTemplate(
+      "{{ name | pascalCase }} {{ name | camelCase }} {{ name | kebabCase }} {{ missing | default('x') }}",
+      { name: "user profile-card" }
+    );
+    expect(out).toBe("UserProfileCard userProfileCard user-profile-card x");
+  });
+
+  it("handles conditionals and loops without leaving blank lines", () => {
+    const source = [
+      "{{#if pm == \"pnpm\"}}",
+      "packages:",
+      "  {{#each workspaces as ws}}",
+      "  - {{ ws }}{{#if @last}} # last{{/if}}",
+      "  {{/each}}",
+      "{{else}}",
+      "npm",
+      "{{/if}}",
+      "{{#unless private}}",
+      "public",
+      "{{/unless}}",
+      "{{! dropped }}",
+      "end"
+    ].join("\n");
+
+    expect(renderTemplate(source, { pm: "pnpm", workspaces: ["apps/*", "packages/*"], private: true }))
+      .toBe("packages:\n  - apps/*\n  - packages/* # last\nend");
+    expect(renderTemplate(source, { pm: "npm", workspaces: [] })).toBe("npm\npublic\nend");
+  });
+
+  it("keeps escaped braces, unknown variables and ${{ }} expressions as written", () => {
+    expect(renderTemplate("\\{{ literal }}", {})).toBe("{{ literal }}");
+    expect(renderTemplate("ok\n{{ nope }} {{nope.deep}}", {}, "a.hbs")).toBe("ok\n{{ nope }} {{nope.deep}}");
+    expect(renderTemplate("${{ github.sha }} ${{ a == 'b' }} {{ a }}", { a: "x" })).toBe("${{ github.sha }} ${{ a == 'b' }} x");
+    expect(() => renderTemplate("{{ a | shout }}", { a: 1 }, "a.hbs")).toThrow('Unknown filter "shout" in a.hbs (line 1)');
+    expect(() => renderTemplate("{{#if a}}x", { a: 1 })).toThrow(/Unclosed \{\{#if\}\}/);
+  });
+});
+
+describe("renderTreeLine", () => {
+  it("fills placeholders through casing filters and reports the ones it can't", () => {
+    const context = { projectName: "Acme Store", app: { name: "adminPanel" } };
+    expect(renderTreeLine("├─ {{ projectName | kebabCase }}/apps/{{app.name|snakeCase}}/", context))
+      .toEqual({ text: "├─ acme-store/apps/admin_panel/", errors: [] });
+
+    const { text, errors } = renderTreeLine("{{ appName }}/{{ projectName | shout }}/{{ 1x }}", context);
+    expect(text).toBe("{{ appName }}/{{ projectName | shout }}/{{ 1x }}");
+    expect(errors).toEqual([
+      'Unresolved variable "appName" in {{ appName }}: pass --var appName=<value> or set it in variables',
+      expect.stringMatching(/^Unknown filter "shout" in \{\{ projectName \| shout \}\} \(available: camelCase, /),
+      "Invalid placeholder {{ 1x }}"
+    ]);
+  });
+});
+
+describe("template directories", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  it("renders file names and recurses into subdirectories", () => {
+    const dir = path.join(tmp.dir, "tpl");
+    mkdirSync(path.join(dir, "src", "__tests__"), { recursive: true });
+    writeFileSync(path.join(dir, "src", "__name|kebabCase__.ts.hbs"), "export const {{ name | camelCase }} = 1;\n");
+    writeFileSync(path.join(dir, "src", "__tests__", "index.test.ts"), "// {{ detectorId }}\n");
+
+    const cfg = { targetDir: "/out", packageManager: "pnpm" } as ForgeConfig;
+    const context = templateContext(cfg, { name: "UserCard", path: "/out/user", kind: "dir", children: [] }, { detectorId: "lib" });
+    const actions = planTemplateDir(dir, "/out/user", context);
+
+    expect(actions).toEqual([
+      { type: "mkdir", path: path.join("/out/user", "src") },
+      { type: "write", path: path.join("/out/user", "src", "user-card.ts"), content: "export const userCard = 1;\n" },
+      { type: "mkdir", path: path.join("/out/user", "src", "__tests__") },
+      { type: "write", path: path.join("/out/user", "src", "__tests__", "index.test.ts"), content: "// lib\n" }
+    ]);
+  });
+
+  it("copies binary files and files without placeholders as they are", () => {
+    const dir = path.join(tmp.dir, "tpl");
+    mkdirSync(dir);
+    writeFileSync(path.join(dir, "logo.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x7b, 0x7b]));
+    writeFileSync(path.join(dir, "latin1.txt"), Buffer.from([0x63, 0x61, 0x66, 0xe9, 0x7b, 0x7b]));
+    writeFileSync(path.join(dir, "LICENSE"), "MIT\n");
+    writeFileSync(path.join(dir, "notes.md.hbs"), "plain\n");
+
+    expect(planTemplateDir(dir, "/out", {})).toEqual([
+      { type: "copy", from: path.join(dir, "LICENSE"), path: path.join("/out", "LICENSE") },
+      { type: "copy", from: path.join(dir, "latin1.txt"), path: path.join("/out", "latin1.txt") },
+      { type: "copy", from: path.join(dir, "logo.png"), path: path.join("/out", "logo.png") },
+      { type: "write", path: path.join("/out", "notes.md"), content: "plain\n" }
+    ]);
+  });
+
+  it("leaves unknown placeholders in names alone", () => {
+    expect(renderFileName("__init__.py", { name: "x" })).toBe("__init__.py");
+    expect(renderFileName("__name__.tsx.tmpl", { name: "Button" })).toBe("Button.tsx");
+  });
+});
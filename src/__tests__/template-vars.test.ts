@@ -0,0 +1,81 @@
+// src/__tests__/template-vars.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { collectTemplateManifests, parseVarFlags, resolveTemplateVariables } from "../template-vars.js";
+import { planTemplateDir } from "../template-engine.js";
+import type { ForgeConfig, TemplateManifest } from "../types.js";
+import { makeTmpDir } from "./helpers.js";
+
+const manifest: TemplateManifest = {
+  variables: [
+    { name: "org", description: "npm scope", pattern: "^[a-z0-9-]+$" },
+    { name: "port", type: "number", default: 3000 },
+    { name: "docker", type: "boolean", default: false },
+    { name: "license", choices: ["MIT", "Apache-2.0"], default: "MIT" },
+    { name: "homepage", required: false }
+  ]
+};
+
+describe("resolveTemplateVariables", () => {
+  it("uses --var over env over config, then defaults", async () => {
+    const resolved = await resolveTemplateVariables([manifest], { variables: { org: "config-org", extra: "x" } }, {
+      cliVars: { port: "8080" },
+      env: { FORGE_TREE_VAR_DOCKER: "yes", FORGE_TREE_VAR_ORG: "env-org" }
+    });
+    expect(resolved).toEqual({ org: "env-org", port: 8080, docker: true, license: "MIT", extra: "x" });
+  });
+
+  it("fails listing missing and invalid variables", async () => {
+    await expect(
+      resolveTemplateVariables([manifest], {}, { cliVars: { license: "GPL" }, env: {} })
+    ).rejects.toThrow(
+      [
+        "Unresolved template variables:",
+        "  • license (from --var license): expected one of MIT, Apache-2.0, got \"GPL\"",
+        "  • org (npm scope) is required: pass --var org=<value> or set FORGE_TREE_VAR_ORG"
+      ].join("\n")
+    );
+
+    await expect(resolveTemplateVariables([manifest], { variables: { org: "Acme Inc" } }, { env: {} }))
+      .rejects.toThrow(/org \(from config variables\): "Acme Inc" does not match/);
+  });
+
+  it("parses --var flags", () => {
+    expect(parseVarFlags(["a=1", "b=x=y"])).toEqual({ a: "1", b: "x=y" });
+    expect(() => parseVarFlags(["novalue"])).toThrow(/expected key=value/);
+  });
+});
+
+describe("template manifests", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  it("loads manifests for the templateDir root and chosen detectors only", () => {
+    const write = (rel: string, value: unknown) => {
+      mkdirSync(path.dirname(path.join(tmp.dir, rel)), { recursive: true });
+      writeFileSync(path.join(tmp.dir, rel), typeof value === "string" ? value : JSON.stringify(value));
+    };
+    write("forge-template.json", { variables: [{ name: "org" }] });
+    write("library-init/forge-template.json", { variables: [{ name: "lib" }] });
+    write("ui-init/forge-template.json", { variables: [{ name: "ui" }] });
+    write("library-init/README.md", "{{ lib }}");
+
+    const cfg = { templateDir: tmp.dir } as ForgeConfig;
+    const names = collectTemplateManifests(cfg, ["library-init"]).flatMap(m => m.variables.map(v => v.name));
+    expect(names).toEqual(["org", "lib"]);
+
+    const actions = planTemplateDir(path.join(tmp.dir, "library-init"), "/out", { lib: "core" });
+    expect(actions).toEqual([{ type: "write", path: path.join("/out", "README.md"), content: "core" }]);
+  });
+
+  it("rejects malformed manifests", () => {
+    writeFileSync(path.join(tmp.dir, "forge-template.json"), JSON.stringify({ variables: [{ type: "string" }] }));
+    expect(() => collectTemplateManifests({ templateDir: tmp.dir } as ForgeConfig)).toThrow(/needs a "name"/);
+  });
+});
@@ -0,0 +1,31 @@
+// src/__tests__/tree-expand.test.ts
+import { describe, it, expect } from "vitest";
+import { expandName } from "../tree-expand.js";
+
+describe("expandName", () => {
+  it("expands alternatives, nested alternatives and several groups in order", () => {
+    expect(expandName("packages/{core,ui,utils}/")).toEqual(["packages/core/", "packages/ui/", "packages/utils/"]);
+    expect(expandName("{index,types}.ts")).toEqual(["index.ts", "types.ts"]);
+    expect(expandName("{a,b{1,2}}")).toEqual(["a", "b1", "b2"]);
+    expect(expandName("{app,lib}.{ts,css}")).toEqual(["app.ts", "app.css", "lib.ts", "lib.css"]);
+    expect(expandName(".env{,.example}")).toEqual([".env", ".env.example"]);
+  });
+
+  it("expands numeric and letter ranges, keeping zero padding", () => {
+    expect(expandName("services/svc-[1..3]/")).toEqual(["services/svc-1/", "services/svc-2/", "services/svc-3/"]);
+    expect(expandName("v{3..1}")).toEqual(["v3", "v2", "v1"]);
+    expect(expandName("[08..10]-migration.sql")).toEqual(["08-migration.sql", "09-migration.sql", "10-migration.sql"]);
+    expect(expandName("part-[a..c]")).toEqual(["part-a", "part-b", "part-c"]);
+  });
+
+  it("leaves names without a group alone", () => {
+    for (const name of ["[id].tsx", "[...slug]/", "{{projectName}}/", "{single}.txt", "a{b", "README.md"]) {
+      expect(expandName(name)).toEqual([name]);
+    }
+  });
+
+  it("refuses expansions that get out of hand", () => {
+    expect(() => expandName("[1..5000]")).toThrow(/more than 1000 names/);
+    expect(() => expandName("[1..40]-[1..40]")).toThrow(/more than 1000 names/);
+  });
+});
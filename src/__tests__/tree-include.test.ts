@@ -0,0 +1,89 @@
+// src/__tests__/tree-include.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { resolveIncludes } from "../tree-include.js";
+import { parseTree, parseTreeWithReport } from "../parser.js";
+import type { ForgeConfig } from "../types.js";
+import { makeTmpDir } from "./helpers.js";
+
+describe("resolveIncludes", () => {
+  let tmp: ReturnType<typeof makeTmpDir>;
+  let cfg: ForgeConfig;
+  const write = (rel: string, lines: string[]) => {
+    mkdirSync(path.dirname(path.join(tmp.dir, rel)), { recursive: true });
+    writeFileSync(path.join(tmp.dir, rel), lines.join("\n") + "\n");
+  };
+
+  beforeEach(() => {
+    tmp = makeTmpDir();
+    cfg = { cwd: tmp.dir, targetDir: tmp.dir, tabIndentationSize: 2, detectAsciiGuides: true } as ForgeConfig;
+  });
+
+  afterEach(() => tmp.cleanup());
+
+  it("splices fragments at the depth of the directive, relative to the including file", async () => {
+    write("fragments/github.tree", [".github/", "  workflows/", "    @include ci.tree", "  CODEOWNERS <= owners.txt"]);
+    write("fragments/ci.tree", ["ci.yml <<EOF", "  @include not-a-directive", "EOF"]);
+
+    const main = ["repo/", "  @include ./fragments/github.tree", "  src/", "    index.ts"].join("\n");
+    const loaded = await resolveIncludes(main, "main.tree", tmp.dir);
+    expect(loaded.text).toBe([
+      "repo/",
+      "  .github/",
+      "    workflows/",
+      "      ci.yml <<EOF",
+      "        @include not-a-directive",
+      "      EOF",
+      "    CODEOWNERS <= fragments/owners.txt",
+      "  src/",
+      "    index.ts"
+    ].join("\n"));
+    expect(loaded.sources?.map(s => `${s.file}:${s.line}`)).toEqual([
+      "main.tree:1",
+      "fragments/github.tree:1",
+      "fragments/github.tree:2",
+      "fragments/ci.tree:1",
+      "fragments/ci.tree:2",
+      "fragments/ci.tree:3",
+      "fragments/github.tree:4",
+      "main.tree:3",
+      "main.tree:4"
+    ]);
+
+    const [repo] = parseTree(loaded.text, cfg, loaded.sources);
+    expect(repo.children.map(c => c.path)).toEqual(["repo/.github", "repo/src"]);
+    expect(repo.children[0].children[0].children[0].content).toEqual({ type: "inline", text: "@include not-a-directive\n" });
+  });
+
+  it("leaves trees without includes alone", async () => {
+    expect(await resolveIncludes("app/\n  a.ts", undefined, tmp.dir)).toEqual({ text: "app/\n  a.ts" });
+  });
+
+  it("drops the frontmatter of fragments", async () => {
+    write("tooling.tree", ["---", "packageManager: yarn", "---", "tooling/"]);
+    const loaded = await resolveIncludes("repo/\n  @include tooling.tree", undefined, tmp.dir);
+    expect(parseTree(loaded.text, cfg, loaded.sources)[0].children.map(c => c.name)).toEqual(["tooling"]);
+  });
+
+  it("rejects cycles and missing fragments with the directive's location", async () => {
+    write("a.tree", ["a/", "  @include b.tree"]);
+    write("b.tree", ["b/", "  @include a.tree"]);
+    await expect(resolveIncludes("root/\n  @include a.tree", undefined, tmp.dir))
+      .rejects.toThrow("b.tree:2: Include cycle: a.tree -> b.tree -> a.tree");
+    await expect(resolveIncludes("root/\n\n  @include missing.tree", undefined, tmp.dir))
+      .rejects.toThrow("<tree>:3: Included file not found: missing.tree");
+  });
+
+  it("reports errors in fragments as file:line", async () => {
+    write("shared.tree", ["tooling/", "  eslint/", "  scripts"]);
+    const loaded = await resolveIncludes("repo/\n  @include shared.tree\n  tooling/", "main.tree", tmp.dir);
+
+    expect(() => parseTree(loaded.text, cfg, loaded.sources))
+      .toThrow(/main\.tree:3: Path "repo\/tooling" is duplicated\. First occurrence: tooling \(shared\.tree:1\)/);
+
+    const ok = await resolveIncludes("repo/\n  @include shared.tree", "main.tree", tmp.dir);
+    const { warnings } = parseTreeWithReport(ok.text, cfg, ok.sources);
+    expect(warnings.filter(w => w.context === "scripts").map(w => `${w.file}:${w.line}`)).toEqual(["shared.tree:3"]);
+  });
+});
@@ -1,35 +1,66 @@
 import fs from "fs/promises";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
 import path from "path";
 import os from "os";
+import type { ForgeConfig } from "./types.js";
+
+export type RunOutcome = "running" | "succeeded" | "failed" | "cancelled";
+
+/** What the registry remembers about one forge-tree invocation. */
+export interface RunRecord {
+  id: string;
+  targetDir: string;
+  cwd?: string;        // Tree paths are resolved against it
+  startedAt: string;
+  command?: "scaffold" | "plan" | "apply";
+  outcome?: RunOutcome;
+  finishedAt?: string;
+  durationMs?: number;
+  logFile?: string;    // Absolute paths
+  statsFile?: string;
+  planFile?: string;   // apply: the plan that was executed
+  config?: Partial<ForgeConfig>;  // Redacted; see configSnapshot()
+  tree?: { file?: string; hash: string; copy?: string };  // copy: see saveRunTree(); apply runs only know the hash
+  actions?: Record<string, number>;  // Planned actions by type
+  detectors?: string[];
+}
 
 interface CacheData {
   lastLogFile?: string;
   lastStatsFile?: string;
   recentLogs: string[];
   recentStats: string[];
+  recentRuns: RunRecord[];
   lastDirectory?: string;
 }
 
 const DEFAULT_CACHE_LIMIT = 10;
+const DEFAULT_RUN_LIMIT = 200;
 const CACHE_FILE = ".forge-tree-cache.json";
 
 export interface CacheOptions {
-  limit?: number;
+  limit?: number;     // Recent log and stats files
+  runLimit?: number;  // Runs kept in the registry
   path?: string;
 }
 
 export class Cache {
   private cachePath: string;
+  private runsDir: string;
   private data: CacheData;
 
   private limit: number;
+  private runLimit: number;
 
   constructor(options: CacheOptions = {}) {
     this.limit = options.limit || DEFAULT_CACHE_LIMIT;
+    this.runLimit = options.runLimit || DEFAULT_RUN_LIMIT;
     this.cachePath = options.path || path.join(os.homedir(), ".forge-tree", CACHE_FILE);
+    this.runsDir = path.join(path.dirname(this.cachePath), "runs");
     this.data = {
       recentLogs: [],
-      recentStats: []
+      recentStats: [],
+      recentRuns: []
     };
   }
 
@@ -42,7 +73,8 @@ export class Cache {
       // Try to read existing cache
       try {
         const content = await fs.readFile(this.cachePath, "utf-8");
-        this.data = JSON.parse(content);
+        // Caches written before runs were tracked have no recentRuns
+        this.data = { recentRuns: [], ...JSON.parse(content) };
       } catch (error) {
         // Cache doesn't exist yet, use default empty data
         await this.save();
@@ -60,6 +92,16 @@ export class Cache {
     }
   }
 
+  // For process exit handlers, where nothing asynchronous runs anymore
+  saveSync(): void {
+    try {
+      mkdirSync(path.dirname(this.cachePath), { recursive: true });
+      writeFileSync(this.cachePath, JSON.stringify(this.data, null, 2));
+    } catch (error) {
+      console.warn("Failed to save cache:", error);
+    }
+  }
+
   getLastLogFile(): string | undefined {
     return this.data.lastLogFile;
   }
@@ -80,6 +122,62 @@ export class Cache {
     return this.data.recentStats;
   }
 
+  // Newest first
+  getRecentRuns(): RunRecord[] {
+    return this.data.recentRuns;
+  }
+
+  // "latest", a full run ID or a unique prefix of one
+  findRun(id: string): RunRecord | undefined {
+    if (id === "latest") return this.data.recentRuns[0];
+    const matches = this.data.recentRuns.filter(run => run.id.startsWith(id));
+    return matches.find(run => run.id === id) ?? (matches.length === 1 ? matches[0] : undefined);
+  }
+
+  async updateRun(run: RunRecord): Promise<void> {
+    this.reloadSync();
+    this.recordRun(run);
+    await this.save();
+  }
+
+  updateRunSync(run: RunRecord): void {
+    this.reloadSync();
+    this.recordRun(run);
+    this.saveSync();
+  }
+
+  /** Keeps the tree of a run in `runs/<id>/tree.txt` next to the cache file and returns its path. */
+  async saveRunTree(id: string, text: string): Promise<string> {
+    const file = path.join(this.runsDir, path.basename(id), "tree.txt");
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, text);
+    return file;
+  }
+
+  // Other forge-tree processes may have recorded runs since load()
+  private reloadSync() {
+    try {
+      this.data = { recentRuns: [], ...JSON.parse(readFileSync(this.cachePath, "utf-8")) };
+    } catch {
+      // Nothing saved yet; keep what is in memory
+    }
+  }
+
+  // Adds a run, or replaces the record with the same ID in place
+  private recordRun(run: RunRecord) {
+    const index = this.data.recentRuns.findIndex(r => r.id === run.id);
+    if (index >= 0) {
+      this.data.recentRuns[index] = run;
+    } else {
+      const runs = [run, ...this.data.recentRuns];
+      this.data.recentRuns = runs.slice(0, this.runLimit);
+      // Runs that drop out of the registry take their saved tree with them
+      runs.slice(this.runLimit).forEach(r => rmSync(path.join(this.runsDir, path.basename(r.id)), { recursive: true, force: true }));
+    }
+    if (run.logFile) this.data.lastLogFile = run.logFile;
+    if (run.statsFile) this.data.lastStatsFile = run.statsFile;
+  }
+
   async updateLogFile(filePath: string): Promise<void> {
     // Convert to relative path if it's under current directory
     const cwd = process.cwd();
@@ -151,14 +249,25 @@ export class Cache {
       }))
     )).filter(result => result.exists).map(result => result.file);
 
+    // Runs stay in the registry, but forget files that were pruned or rotated away
+    this.data.recentRuns = await Promise.all(
+      this.data.recentRuns.map(async run => ({
+        ...run,
+        logFile: run.logFile && await checkFile(run.logFile) ? run.logFile : undefined,
+        statsFile: run.statsFile && await checkFile(run.statsFile) ? run.statsFile : undefined
+      }))
+    );
+
     await this.save();
   }
 
   async clear(): Promise<void> {
     this.data = {
       recentLogs: [],
-      recentStats: []
+      recentStats: [],
+      recentRuns: []
     };
+    await fs.rm(this.runsDir, { recursive: true, force: true });
     await this.save();
   }
 
@@ -178,6 +287,9 @@ export class Cache {
         if (Array.isArray(imported.recentStats)) {
           this.data.recentStats = imported.recentStats;
         }
+        if (Array.isArray(imported.recentRuns)) {
+          this.data.recentRuns = imported.recentRuns;
+        }
         if (typeof imported.lastDirectory === "string") {
           this.data.lastDirectory = imported.lastDirectory;
         }
@@ -0,0 +1,188 @@
+import fs from "fs";
+import path from "path";
+import type { TreeStyle } from "./types.js";
+import { EXCLUDED_DIRS } from "./scan.js";
+import { isKnownFileName } from "./node-kind.js";
+
+export type CaptureStyle = "unicode" | "simple";
+
+export type CaptureOptions = {
+  maxDepth?: number;          // Levels below the root to include (default: unlimited)
+  style?: CaptureStyle;
+  contents?: boolean;         // Embed small text files as heredocs
+  maxContentSize?: number;    // Bytes; larger files are captured as empty stubs
+  gitignore?: boolean;        // Honor .gitignore files (default: true)
+};
+
+export type CaptureNode = {
+  name: string;
+  isDirectory: boolean;
+  children: CaptureNode[];
+  content?: string;
+};
+
+type IgnoreRule = {
+  base: string;       // Directory of the .gitignore, relative to the capture root
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  anchored: boolean;  // Pattern contains a slash, so it matches from base
+};
+
+// Both styles are read back by parseTree with default settings
+export const CAPTURE_STYLES: Record<CaptureStyle, TreeStyle> = {
+  unicode: { vertical: "│", horizontal: "─", corner: "└", branch: "├", indent: "  " },
+  simple: { vertical: "|", horizontal: "-", corner: "`", branch: "+", indent: "  " }
+};
+
+export const DEFAULT_MAX_CONTENT_SIZE = 4096;
+
+function globToRegex(glob: string): RegExp {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        out += "(?:.*/)?";
+        i += 2;
+      } else {
+        out += ".*";
+        i += 1;
+      }
+    } else if (ch === "*") {
+      out += "[^/]*";
+    } else if (ch === "?") {
+      out += "[^/]";
+    } else {
+      out += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${out}$`);
+}
+
+export function parseGitignore(text: string, base = ""): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    let line = raw.replace(/\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.slice(0, -1);
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) line = line.slice(1);
+
+    rules.push({ base, regex: globToRegex(line), negate, dirOnly, anchored });
+  }
+  return rules;
+}
+
+// Last matching rule wins, as in git
+export function isIgnored(rules: IgnoreRule[], relPath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    if (rule.base && !relPath.startsWith(rule.base + "/")) continue;
+    const local = rule.base ? relPath.slice(rule.base.length + 1) : relPath;
+    const subject = rule.anchored ? local : path.posix.basename(local);
+    if (rule.regex.test(subject)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+function readSmallText(file: string, size: number, limit: number): string | undefined {
+  if (size > limit) return undefined;
+  const buffer = fs.readFileSync(file);
+  if (buffer.includes(0)) return undefined;  // binary
+  const text = buffer.toString("utf8");
+  return Buffer.from(text, "utf8").equals(buffer) ? text : undefined;
+}
+
+// Directories first, then files, each sorted by name
+export function walkDirectory(root: string, options: CaptureOptions = {}): CaptureNode {
+  const limit = options.maxContentSize ?? DEFAULT_MAX_CONTENT_SIZE;
+
+  const visit = (dir: string, rel: string, depth: number, rules: IgnoreRule[]): CaptureNode => {
+    const node: CaptureNode = { name: path.basename(dir), isDirectory: true, children: [] };
+    if (options.maxDepth !== undefined && depth >= options.maxDepth) return node;
+
+    const gitignore = path.join(dir, ".gitignore");
+    if (options.gitignore !== false && fs.existsSync(gitignore)) {
+      rules = [...rules, ...parseGitignore(fs.readFileSync(gitignore, "utf8"), rel)];
+    }
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const childRel = rel ? `${rel}/${entry.name}` : entry.name;
+      const full = path.join(dir, entry.name);
+      const isDirectory = entry.isDirectory();
+      if (!isDirectory && !entry.isFile()) continue;  // symlinks (a tree can't declare them), sockets, ...
+      if (isDirectory && EXCLUDED_DIRS.includes(entry.name)) continue;
+      if (isIgnored(rules, childRel, isDirectory)) continue;
+
+      if (isDirectory) {
+        node.children.push(visit(full, childRel, depth + 1, rules));
+      } else {
+        const child: CaptureNode = { name: entry.name, isDirectory: false, children: [] };
+        if (options.contents) child.content = readSmallText(full, fs.statSync(full).size, limit);
+        node.children.push(child);
+      }
+    }
+
+    node.children.sort((a, b) => {
+      if (a.isDirectory !== b.isDirectory) return a.isDirectory ? -1 : 1;
+      return a.name.localeCompare(b.name);
+    });
+    return node;
+  };
+
+  return visit(root, "", 0, []);
+}
+
+// A heredoc tag that doesn't appear as a line of the content
+function heredocTag(content: string) {
+  const lines = new Set(content.split(/\r?\n/).map(l => l.trim()));
+  let tag = "EOF";
+  for (let i = 1; lines.has(tag); i++) tag = `EOF${i}`;
+  return tag;
+}
+
+function formatNode(node: CaptureNode, style: TreeStyle, prefix: string, isLast: boolean, lines: string[]) {
+  const marker = (isLast ? style.corner : style.branch) + style.horizontal + " ";
+  const childPrefix = prefix + (isLast ? " " : style.vertical) + style.indent;
+  // Extensionless files parseTree doesn't know by name would read back as directories
+  const content = node.isDirectory ? undefined : node.content || undefined;
+  const marked = !node.isDirectory && content === undefined && !node.name.includes(".") && !isKnownFileName(node.name);
+  const label = node.isDirectory ? `${node.name}/` : marked ? `${node.name} @file` : node.name;
+  if (content === undefined) {
+    lines.push(prefix + marker + label);
+  } else {
+    // Heredoc lines are indented with plain spaces: guide characters would end up in the content
+    const tag = heredocTag(content);
+    const pad = " ".repeat(childPrefix.length);
+    lines.push(`${prefix}${marker}${label} <<${tag}`);
+    // Heredoc content is rendered as a template when scaffolded, so literal braces are escaped
+    const body = (content.endsWith("\n") ? content.slice(0, -1) : content).replace(/\{\{/g, "\\{{");
+    if (content) body.split(/\r?\n/).forEach(l => lines.push(l ? pad + "  " + l : ""));
+    lines.push(pad + tag);
+  }
+
+  node.children.forEach((child, i) => formatNode(child, style, childPrefix, i === node.children.length - 1, lines));
+}
+
+/**
+ * Renders a directory as a tree file that parseTree reads back into the same
+ * structure. Skips EXCLUDED_DIRS and anything matched by .gitignore files.
+ */
+export function captureTree(dir: string, options: CaptureOptions = {}): string {
+  const root = path.resolve(dir);
+  if (!fs.statSync(root).isDirectory()) {
+    throw new Error(`Not a directory: ${root}`);
+  }
+  const style = CAPTURE_STYLES[options.style ?? "unicode"];
+  const tree = walkDirectory(root, options);
+
+  const lines = [`${tree.name}/`];
+  tree.children.forEach((child, i) => formatNode(child, style, "", i === tree.children.length - 1, lines));
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,703 @@
+import { promises as fs, existsSync, readFileSync, statSync } from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { pathToFileURL } from "url";
+import yargs from "yargs";
+import type { ForgeConfig, ForgeConfigFile } from "./types.js";
+import type { ValidationError } from "./validator.js";
+import { splitFrontmatter } from "./frontmatter.js";
+
+export const CONFIG_FILE_NAMES = [
+  "forge-tree.config.json",
+  "forge-tree.config.js",
+  "forge-tree.config.mjs",
+  "forge-tree.config.ts"
+];
+
+export const PACKAGE_JSON_KEY = "forgeTree";
+
+export type LoadedConfig = {
+  config: Partial<ForgeConfig>;
+  files: string[];  // Every file that contributed, base presets first
+};
+
+// Maps ForgeConfig keys onto the yargs flag that sets them, so file values can be
+// handed to yargs as a config object and explicit flags keep precedence.
+const CLI_FLAGS: Record<string, string> = {
+  targetDir: "targetDir",
+  treeFile: "tree-file",
+  treeText: "tree",
+  dryRun: "dry-run",
+  yes: "yes",
+  packageManager: "pm",
+  tabIndentationSize: "tabIndentationSize",
+  detectAsciiGuides: "detectAsciiGuides",
+  runDetectors: "detectors",
+  generateDotfiles: "dotfiles",
+  quiet: "quiet",
+  showTree: "show-tree",
+  showResult: "show-result",
+  git: "git",
+  github: "github",
+  private: "private",
+  noPush: "no-push",
+  branch: "branch",
+  overwriteMode: "overwrite",
+  skipExisting: "skip-existing",
+  backup: "backup",
+  transactional: "transactional",
+  sync: "sync",
+  removedMode: "removed",
+  onConflict: "on-conflict",
+  concurrency: "concurrency",
+  allowOutside: "allow-outside"
+};
+
+const LOGGING_FLAGS: Record<string, string> = {
+  enabled: "log",
+  level: "log-level",
+  format: "log-format",
+  file: "log-file",
+  perRun: "log-per-run"
+};
+
+// What a tree's frontmatter may set. Paths, safety switches and anything that runs
+// commands stay in the config file or on the command line.
+const FRONTMATTER_FIELDS = ["packageManager", "variables", "treeStyle", "generateDotfiles", "detectors", "initTargets"];
+
+// Fields holding paths that are resolved against the directory of the file declaring them
+const PATH_FIELDS = ["targetDir", "treeFile", "templateDir"] as const;
+
+type FieldSpec =
+  | { kind: "string" | "number" | "boolean" | "function" | "record" | "scalarRecord" | "stringArray" }
+  | { kind: "enum"; values: readonly string[] }
+  | { kind: "object"; fields: Record<string, FieldSpec> }
+  | { kind: "array"; items: FieldSpec }
+  | { kind: "union"; options: FieldSpec[] };
+
+const str: FieldSpec = { kind: "string" };
+const num: FieldSpec = { kind: "number" };
+const bool: FieldSpec = { kind: "boolean" };
+const record: FieldSpec = { kind: "record" };
+const scalars: FieldSpec = { kind: "scalarRecord" };
+const strings: FieldSpec = { kind: "stringArray" };
+const oneOf = (...values: string[]): FieldSpec => ({ kind: "enum", values });
+const strategy = (...values: string[]): FieldSpec => ({
+  kind: "union",
+  options: [oneOf(...values), { kind: "function" }]
+});
+
+const LOG_LEVELS = ["silent", "error", "warn", "info", "debug", "verbose"];
+
+const CONFIG_SCHEMA: Record<string, FieldSpec> = {
+  extends: { kind: "union", options: [str, strings] },
+  targetDir: str,
+  treeText: str,
+  treeFile: str,
+  dryRun: bool,
+  yes: bool,
+  packageManager: oneOf("pnpm", "yarn", "npm"),
+  tabIndentationSize: num,
+  detectAsciiGuides: bool,
+  runDetectors: bool,
+  generateDotfiles: bool,
+  quiet: bool,
+  allowNestedInit: bool,
+  customInitializers: {
+    kind: "array",
+    items: {
+      kind: "object",
+      fields: {
+        id: str,
+        name: str,
+        description: str,
+        command: str,
+        args: strings,
+        matchDirs: strings,
+        matchFiles: strings,
+        env: record,
+        workingDir: oneOf("root", "target")
+      }
+    }
+  },
+  initTargets: {
+    kind: "array",
+    items: { kind: "object", fields: { initId: str, targetDirs: strings } }
+  },
+  detectors: { kind: "object", fields: { enable: strings, disable: strings } },
+  logging: {
+    kind: "object",
+    fields: {
+      enabled: bool,
+      level: oneOf(...LOG_LEVELS),
+      file: str,
+      console: bool,
+      format: oneOf("text", "json"),
+      includeTimestamps: bool,
+      includeDuration: bool,
+      includeMetadata: bool,
+      ndjson: str,
+      perRun: bool,
+      rotation: { kind: "object", fields: { maxSize: num, maxAgeDays: num, keep: num } },
+      retention: { kind: "object", fields: { maxRuns: num, maxAgeDays: num } },
+      redact: {
+        kind: "object",
+        fields: {
+          enabled: bool,
+          keys: strings,
+          patterns: strings,
+          replacement: str
+        }
+      }
+    }
+  },
+  showTree: bool,
+  showResult: bool,
+  git: bool,
+  github: { kind: "union", options: [bool, str] },
+  private: bool,
+  noPush: bool,
+  branch: str,
+  treeStyle: {
+    kind: "object",
+    fields: { indent: str, vertical: str, horizontal: str, corner: str, branch: str }
+  },
+  overwriteMode: oneOf("ask", "skip", "force"),
+  skipExisting: bool,
+  backup: bool,
+  transactional: bool,
+  sync: bool,
+  removedMode: oneOf("ask", "keep", "delete", "archive"),
+  onConflict: oneOf("tree", "detector", "merge", "error"),
+  concurrency: num,
+  allowOutside: bool,
+  preserveGitIgnore: bool,
+  preservePackageJson: bool,
+  preserveConfig: bool,
+  logLevel: oneOf(...LOG_LEVELS.filter(l => l !== "verbose")),
+  templateDir: str,
+  variables: scalars,
+  extensionlessFiles: strings,
+  pathValidation: {
+    kind: "object",
+    fields: {
+      maxDepth: num,
+      maxPathLength: num,
+      maxNameLength: num,
+      allowedChars: str,
+      disallowedNames: strings,
+      enforceCase: oneOf("lower", "upper", "any"),
+      allowDots: bool,
+      allowSpaces: bool,
+      requireExtensions: bool,
+      allowedExtensions: strings,
+      uniqueNames: bool,
+      uniquePaths: bool,
+      normalizeSlashes: bool,
+      trimWhitespace: bool,
+      resolveRelative: bool
+    }
+  },
+  pathConflict: {
+    kind: "object",
+    fields: {
+      onDuplicatePath: strategy("error", "warn", "rename", "merge", "skip", "numbered", "timestamp"),
+      onDuplicateName: strategy("error", "warn", "rename", "skip", "numbered", "timestamp"),
+      onInvalidChars: strategy("error", "warn", "replace", "strip", "encode", "transliterate"),
+      onLongPath: strategy("error", "warn", "truncate", "hash", "shorten"),
+      renamePattern: str,
+      replacementChar: str,
+      mergeStrategy: {
+        kind: "object",
+        fields: {
+          files: strategy("keep-both", "keep-newer", "keep-larger", "concatenate"),
+          directories: strategy("merge-recursive", "keep-both", "keep-newer")
+        }
+      },
+      hashAlgorithm: oneOf("md5", "sha1", "sha256"),
+      transliterationMap: record,
+      preserveExtension: bool,
+      maxAttempts: num,
+      counterStart: num,
+      counterPadding: num
+    }
+  },
+  pathNormalization: {
+    kind: "object",
+    fields: {
+      style: oneOf("unix", "windows", "mixed"),
+      base: oneOf("root", "relative", "absolute"),
+      case: oneOf("preserve", "lower", "upper")
+    }
+  }
+};
+
+/**
+ * Walks up from `startDir` looking for a forge-tree config file or a package.json
+ * carrying a "forgeTree" key. The first directory that has either wins.
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+
+    const pkg = path.join(dir, "package.json");
+    if (existsSync(pkg)) {
+      try {
+        const parsed = JSON.parse(readFileSync(pkg, "utf8"));
+        if (parsed && typeof parsed === "object" && PACKAGE_JSON_KEY in parsed) return pkg;
+      } catch {
+        // An unreadable package.json is not ours to report
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+// The flags read before the real CLI parse, to find the config file and the tree's frontmatter
+export type PreArgv = {
+  config?: string | false;  // false: --no-config
+  "tree-file"?: string;
+  tree?: string;
+  _: (string | number)[];
+};
+
+export function parsePreArgv(args: string[]): PreArgv {
+  return yargs(args)
+    .help(false)
+    .version(false)
+    .option("config", { type: "string" })
+    .option("no-config", { type: "boolean" })
+    .option("tree-file", { type: "string" })
+    .option("tree", { type: "string" })
+    .parseSync();
+}
+
+/**
+ * Loads the project config: an explicit file if given, otherwise the nearest one
+ * discovered from `cwd`. Returns an empty config when nothing is found, or when
+ * `configFile` is false (--no-config).
+ */
+export async function loadProjectConfig(options: {
+  cwd: string;
+  configFile?: string | false;
+}): Promise<LoadedConfig> {
+  if (options.configFile === false) return { config: {}, files: [] };
+  const file = options.configFile
+    ? path.resolve(options.cwd, options.configFile)
+    : findConfigFile(options.cwd);
+
+  if (!file) return { config: {}, files: [] };
+  if (!existsSync(file)) {
+    throw new Error(`Config file not found: ${file}`);
+  }
+
+  return loadConfigChain(file, []);
+}
+
+async function loadConfigChain(file: string, chain: string[]): Promise<LoadedConfig> {
+  if (chain.includes(file)) {
+    throw new Error(`Circular "extends" in config: ${[...chain, file].join(" -> ")}`);
+  }
+
+  const raw = await readConfigFile(file);
+  const { extends: parents, ...own } = raw;
+  const bases = parents === undefined ? [] : Array.isArray(parents) ? parents : [parents];
+
+  let config: Partial<ForgeConfig> = {};
+  const files: string[] = [];
+  for (const base of bases) {
+    const loaded = await loadConfigChain(resolveExtends(base, file), [...chain, file]);
+    config = mergeConfig(config, loaded.config);
+    files.push(...loaded.files.filter(f => !files.includes(f)));
+  }
+
+  config = mergeConfig(config, resolvePathFields(own, path.dirname(file)));
+  files.push(file);
+  return { config, files };
+}
+
+/**
+ * Reads the frontmatter of the tree (see splitFrontmatter) as config, validated like
+ * a config file. Only the options in FRONTMATTER_FIELDS are accepted.
+ */
+export async function loadTreeConfig(options: {
+  cwd: string;
+  treeFile?: string;
+  treeText?: string;
+}): Promise<Partial<ForgeConfig>> {
+  const file = options.treeFile ? path.resolve(options.cwd, options.treeFile) : undefined;
+  const label = file ?? "--tree";
+  // A missing tree file is reported when the tree itself is loaded
+  const text = file ? (existsSync(file) ? await fs.readFile(file, "utf8") : "") : options.treeText ?? "";
+
+  let data: Record<string, unknown> | undefined;
+  try {
+    ({ data } = splitFrontmatter(text));
+  } catch (error) {
+    throw new Error(`Invalid frontmatter in ${label}:\n${error instanceof Error ? error.message : error}`);
+  }
+  if (!data) return {};
+
+  const lines = text.split(/\r?\n/);
+  const lineOf = (key: string) => {
+    const index = lines.findIndex(l => l.replace(/["']/g, "").trimStart().startsWith(`${key}:`));
+    return index === -1 ? undefined : index + 1;
+  };
+  const errors = [
+    ...validateConfig(data),
+    ...Object.keys(data)
+      .filter(key => !FRONTMATTER_FIELDS.includes(key))
+      .map(key => ({ type: "error" as const, message: `"${key}": Not allowed in tree frontmatter` }))
+  ].filter(e => e.type === "error");
+  if (errors.length > 0) {
+    const messages = errors.map(e => {
+      const line = lineOf(e.message.match(/^"([^".]+)/)?.[1] ?? "");
+      return line ? `Line ${line}: ${e.message}\n  ${lines[line - 1].trim()}` : e.message;
+    }).join("\n");
+    throw new Error(`Invalid frontmatter in ${label}:\n${messages}`);
+  }
+
+  return data as Partial<ForgeConfig>;
+}
+
+function resolveExtends(specifier: string, fromFile: string): string {
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+    const resolved = path.resolve(path.dirname(fromFile), specifier);
+    if (existsSync(resolved) && statSync(resolved).isDirectory()) {
+      const inDir = findConfigFile(resolved);
+      if (inDir && path.dirname(inDir) === resolved) return inDir;
+      throw new Error(`No config file found in "${specifier}" (extended from ${fromFile})`);
+    }
+    return resolved;
+  }
+
+  // Shared presets published as packages, e.g. "@acme/forge-tree-preset"
+  try {
+    return createRequire(fromFile).resolve(specifier);
+  } catch {
+    throw new Error(`Cannot resolve "extends": "${specifier}" from ${fromFile}`);
+  }
+}
+
+async function readConfigFile(file: string): Promise<ForgeConfigFile> {
+  const ext = path.extname(file);
+  let value: unknown;
+  let text: string | undefined;
+  let prefix: string[] = [];
+
+  if (ext === ".json") {
+    text = await fs.readFile(file, "utf8");
+    value = parseJson(text, file);
+    if (path.basename(file) === "package.json") {
+      const pkg = value as Record<string, unknown>;
+      if (!(PACKAGE_JSON_KEY in pkg)) {
+        throw new Error(`${file} has no "${PACKAGE_JSON_KEY}" key`);
+      }
+      value = pkg[PACKAGE_JSON_KEY];
+      prefix = [PACKAGE_JSON_KEY];
+    }
+  } else {
+    value = await importConfigModule(file);
+  }
+
+  const errors = validateConfig(value, text, prefix);
+  const critical = errors.filter(e => e.type === "error");
+  if (critical.length > 0) {
+    const messages = critical.map(e =>
+      e.line ? `Line ${e.line}: ${e.message}${e.context ? `\n  ${e.context}` : ""}` : e.message
+    ).join("\n");
+    throw new Error(`Invalid config file ${file}:\n${messages}`);
+  }
+
+  return value as ForgeConfigFile;
+}
+
+async function importConfigModule(file: string): Promise<unknown> {
+  try {
+    const mod = await import(pathToFileURL(file).href);
+    return mod.default ?? mod;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException)?.code;
+    if (path.extname(file) === ".ts" && code === "ERR_UNKNOWN_FILE_EXTENSION") {
+      throw new Error(
+        `Cannot load ${file}: this Node.js version cannot import TypeScript directly. ` +
+        `Run forge-tree through a TypeScript loader (e.g. tsx) or use forge-tree.config.js/json instead.`
+      );
+    }
+    throw new Error(`Failed to load config file ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function parseJson(text: string, file: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const lineMatch = message.match(/line (\d+)/);
+    const posMatch = message.match(/position (\d+)/);
+    const line = lineMatch
+      ? Number(lineMatch[1])
+      : posMatch
+      ? text.slice(0, Number(posMatch[1])).split("\n").length
+      : undefined;
+    const context = line ? text.split(/\r?\n/)[line - 1] : undefined;
+    throw new Error(
+      `Invalid config file ${file}:\n` +
+      `${line ? `Line ${line}: ` : ""}${message}${context ? `\n  ${context}` : ""}`
+    );
+  }
+}
+
+/**
+ * Checks a config object against the ForgeConfig shape. When the JSON source text
+ * is available each error carries the line of the offending key.
+ */
+export function validateConfig(value: unknown, sourceText?: string, prefix: string[] = []): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const lines = sourceText ? mapJsonLines(sourceText) : undefined;
+  const sourceLines = sourceText?.split(/\r?\n/);
+
+  const report = (keyPath: string[], message: string, type: ValidationError["type"] = "error") => {
+    const line = lines ? lookupLine(lines, [...prefix, ...keyPath]) : undefined;
+    errors.push({
+      type,
+      message: `${keyPath.length ? `"${keyPath.join(".")}": ` : ""}${message}`,
+      line,
+      context: line && sourceLines ? sourceLines[line - 1].trim() : undefined
+    });
+  };
+
+  if (!isPlainObject(value)) {
+    report([], "Config must be an object");
+    return errors;
+  }
+
+  checkFields(value, CONFIG_SCHEMA, [], report);
+  return errors;
+}
+
+type Reporter = (keyPath: string[], message: string, type?: ValidationError["type"]) => void;
+
+function checkFields(value: Record<string, unknown>, fields: Record<string, FieldSpec>, keyPath: string[], report: Reporter) {
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const spec = fields[key];
+    if (!spec) {
+      report([...keyPath, key], "Unknown option");
+      continue;
+    }
+    if (fieldValue === undefined) continue;
+    checkValue(fieldValue, spec, [...keyPath, key], report);
+  }
+}
+
+function checkValue(value: unknown, spec: FieldSpec, keyPath: string[], report: Reporter) {
+  const problem = describeMismatch(value, spec);
+  if (problem) {
+    report(keyPath, problem);
+    return;
+  }
+  if (spec.kind === "object") {
+    checkFields(value as Record<string, unknown>, spec.fields, keyPath, report);
+  } else if (spec.kind === "array") {
+    (value as unknown[]).forEach((item, i) => checkValue(item, spec.items, [...keyPath, String(i)], report));
+  }
+}
+
+function describeMismatch(value: unknown, spec: FieldSpec): string | undefined {
+  switch (spec.kind) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "function":
+      return typeof value === spec.kind ? undefined : `Expected ${spec.kind}, got ${typeName(value)}`;
+    case "enum":
+      return typeof value === "string" && spec.values.includes(value)
+        ? undefined
+        : `Expected one of ${spec.values.map(v => `"${v}"`).join(", ")}, got ${JSON.stringify(value)}`;
+    case "record":
+      return isPlainObject(value) && Object.values(value).every(v => typeof v === "string")
+        ? undefined
+        : `Expected an object of string values, got ${typeName(value)}`;
+    case "scalarRecord":
+      return isPlainObject(value) && Object.values(value).every(v => ["string", "number", "boolean"].includes(typeof v))
+        ? undefined
+        : `Expected an object of string, number or boolean values, got ${typeName(value)}`;
+    case "stringArray":
+      return Array.isArray(value) && value.every(v => typeof v === "string")
+        ? undefined
+        : `Expected an array of strings, got ${typeName(value)}`;
+    case "object":
+      return isPlainObject(value) ? undefined : `Expected object, got ${typeName(value)}`;
+    case "array":
+      return Array.isArray(value) ? undefined : `Expected array, got ${typeName(value)}`;
+    case "union": {
+      const problems = spec.options.map(option => describeMismatch(value, option));
+      return problems.some(p => p === undefined) ? undefined : problems.join("; or ");
+    }
+  }
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Records the line on which every key (and array element) of a JSON document starts
+function mapJsonLines(text: string): Map<string, number> {
+  const result = new Map<string, number>();
+  const stack: { kind: "object" | "array"; path: string[]; key?: string; index: number }[] = [];
+  let line = 1;
+
+  const currentPath = (): string[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return [];
+    return top.kind === "object" ? [...top.path, top.key ?? ""] : [...top.path, String(top.index)];
+  };
+  const markArrayItem = () => {
+    const top = stack[stack.length - 1];
+    const key = currentPath().join(".");
+    if (top?.kind === "array" && !result.has(key)) result.set(key, line);
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\n") {
+      line++;
+    } else if (ch === '"') {
+      const startLine = line;
+      let j = i + 1;
+      let value = "";
+      while (j < text.length && text[j] !== '"') {
+        if (text[j] === "\\") {
+          value += text[j + 1];
+          j += 2;
+          continue;
+        }
+        value += text[j++];
+      }
+      let k = j + 1;
+      while (k < text.length && /\s/.test(text[k])) k++;
+      const top = stack[stack.length - 1];
+      if (text[k] === ":" && top?.kind === "object") {
+        top.key = value;
+        result.set([...top.path, value].join("."), startLine);
+      } else {
+        markArrayItem();
+      }
+      i = j;
+    } else if (ch === "{" || ch === "[") {
+      markArrayItem();
+      stack.push({ kind: ch === "{" ? "object" : "array", path: currentPath(), index: 0 });
+    } else if (ch === "}" || ch === "]") {
+      stack.pop();
+    } else if (ch === ",") {
+      const top = stack[stack.length - 1];
+      if (top?.kind === "array") top.index++;
+    } else if (!/\s|:/.test(ch)) {
+      markArrayItem();
+    }
+  }
+
+  return result;
+}
+
+function lookupLine(lines: Map<string, number>, keyPath: string[]): number | undefined {
+  for (let len = keyPath.length; len > 0; len--) {
+    const line = lines.get(keyPath.slice(0, len).join("."));
+    if (line) return line;
+  }
+  return undefined;
+}
+
+function resolvePathFields(config: Partial<ForgeConfig>, baseDir: string): Partial<ForgeConfig> {
+  const resolved = { ...config };
+  for (const field of PATH_FIELDS) {
+    const value = resolved[field];
+    if (typeof value === "string") resolved[field] = path.resolve(baseDir, value);
+  }
+  return resolved;
+}
+
+/**
+ * Deep-merges two configs: nested objects are merged key by key, while arrays and
+ * scalar values from `override` replace those in `base`.
+ */
+export function mergeConfig(base: Partial<ForgeConfig>, override: Partial<ForgeConfig>): Partial<ForgeConfig> {
+  const merge = (a: Record<string, unknown>, b: Record<string, unknown>) => {
+    const out: Record<string, unknown> = { ...a };
+    for (const [key, value] of Object.entries(b)) {
+      if (value === undefined) continue;
+      out[key] = isPlainObject(value) && isPlainObject(out[key])
+        ? merge(out[key] as Record<string, unknown>, value)
+        : value;
+    }
+    return out;
+  };
+  return merge(base, override) as Partial<ForgeConfig>;
+}
+
+/**
+ * Splits a loaded config into values yargs should treat as config-provided flag
+ * values (so explicit CLI flags still win) and the remaining ForgeConfig fields
+ * that have no CLI flag.
+ */
+export function splitConfigForCli(config: Partial<ForgeConfig>): {
+  argv: Record<string, unknown>;
+  rest: Partial<ForgeConfig>;
+} {
+  const argv: Record<string, unknown> = {};
+  const rest: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(config)) {
+    if (key in CLI_FLAGS) {
+      argv[CLI_FLAGS[key]] = value;
+    } else if (key === "logging" && isPlainObject(value)) {
+      const logging: Record<string, unknown> = {};
+      for (const [logKey, logValue] of Object.entries(value)) {
+        if (logKey in LOGGING_FLAGS) argv[LOGGING_FLAGS[logKey]] = logValue;
+        else logging[logKey] = logValue;
+      }
+      rest.logging = logging;
+    } else {
+      rest[key] = value;
+    }
+  }
+
+  return { argv, rest: rest as Partial<ForgeConfig> };
+}
+
+/**
+ * The parts of a resolved config that a config file can express, as plain JSON,
+ * with paths made absolute. Functions (custom strategies) can't be recorded and
+ * are left out.
+ */
+export function configSnapshot(cfg: Partial<ForgeConfig>): Partial<ForgeConfig> {
+  const pick = (value: unknown, spec: FieldSpec): unknown => {
+    if (value === undefined || typeof value === "function") return undefined;
+    if (spec.kind !== "object" || !isPlainObject(value)) return JSON.parse(JSON.stringify(value));
+    const out: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(spec.fields)) {
+      const picked = pick(value[key], field);
+      if (picked !== undefined) out[key] = picked;
+    }
+    return out;
+  };
+
+  const snapshot = pick(cfg, { kind: "object", fields: CONFIG_SCHEMA }) as Record<string, unknown>;
+  for (const field of PATH_FIELDS) {
+    if (typeof snapshot[field] === "string") snapshot[field] = path.resolve(cfg.cwd ?? process.cwd(), snapshot[field] as string);
+  }
+  return snapshot as Partial<ForgeConfig>;
+}
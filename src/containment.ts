@@ -0,0 +1,72 @@
+import { readlinkSync, realpathSync } from "fs";
+import path from "path";
+import type { PlanAction } from "./types.js";
+
+const MAX_LINKS = 40;
+
+// Where a path really lands on disk, following symlinks (dangling ones too) in every existing component
+function realLocation(p: string, links = 0): string {
+  if (links > MAX_LINKS) throw new Error(`Too many levels of symbolic links: ${p}`);
+  const abs = path.resolve(p);
+  try {
+    return realpathSync(abs);
+  } catch {
+    // Missing, or a symlink whose target is missing
+  }
+  let target: string | undefined;
+  try {
+    target = readlinkSync(abs);
+  } catch {
+    // Not a symlink
+  }
+  if (target !== undefined) return realLocation(path.resolve(path.dirname(abs), target), links + 1);
+  const parent = path.dirname(abs);
+  return parent === abs ? abs : path.join(realLocation(parent, links), path.basename(abs));
+}
+
+function isInside(p: string, dir: string) {
+  const rel = path.relative(dir, p);
+  return !path.isAbsolute(rel) && rel !== ".." && !rel.startsWith(".." + path.sep);
+}
+
+/**
+ * True when p stays inside dir, both by its path and after following symlinks.
+ * Relative paths are taken from dir.
+ */
+export function isContained(p: string, dir: string) {
+  const root = path.resolve(dir);
+  const abs = path.resolve(root, p);
+  return isInside(abs, root) && isInside(realLocation(abs), realLocation(root));
+}
+
+// Paths an action changes or runs in; copy sources are only read
+function actionTargets(action: PlanAction): { path: string; followLast: boolean }[] {
+  if (action.type === "exec") return [{ path: action.cwd, followLast: true }];
+  // remove and symlink act on the link itself, not on what it points to
+  return [{ path: action.path, followLast: action.type !== "remove" && action.type !== "symlink" }];
+}
+
+/**
+ * Throws if the action would touch anything outside targetDir, either by its
+ * path (`../`, absolute paths) or through a symlink on the way there. Relative
+ * paths are taken from targetDir. Checked against the disk as it is now, so
+ * run it right before the step.
+ */
+export function assertInsideTarget(action: PlanAction, targetDir: string) {
+  const root = path.resolve(targetDir);
+  const realRoot = realLocation(root);
+
+  for (const target of actionTargets(action)) {
+    const abs = path.resolve(root, target.path);
+    const where = action.type === "exec" ? `run ${action.cmd} in` : `${action.type}`;
+    if (!isInside(abs, root)) {
+      throw new Error(`Refusing to ${where} ${target.path}: ${abs} is outside the target directory ${root} (use --allow-outside to permit this)`);
+    }
+    const real = target.followLast
+      ? realLocation(abs)
+      : path.join(realLocation(path.dirname(abs)), path.basename(abs));
+    if (!isInside(real, realRoot)) {
+      throw new Error(`Refusing to ${where} ${target.path}: a symlink leads outside the target directory to ${real} (use --allow-outside to permit this)`);
+    }
+  }
+}
@@ -1,13 +1,14 @@
 import type { Detector, ForgeConfig, TreeNode, DetectorEvents } from "./types.js";
 import { DetectorEventEmitter } from "./events.js";
-import { Logger } from "./logger.js";
+import { getRunLogger } from "./logger.js";
+import type { Logger } from "./logger.js";
 
 export class DetectorManager {
   private eventEmitter = new DetectorEventEmitter();
   private logger: Logger;
 
   constructor(private cfg: ForgeConfig) {
-    this.logger = new Logger(cfg.logging, cfg.targetDir);
+    this.logger = getRunLogger(cfg);
   }
 
   on<T extends keyof DetectorEvents>(event: T, handler: (data: DetectorEvents[T]) => void) {
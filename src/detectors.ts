@@ -1,9 +1,9 @@
 import type { CustomInitializer, Detector, ForgeConfig, GeneratorResult, TreeNode } from "./types.js";
 import path from "path";
-import fs from "fs/promises";
 import { pmArgs } from "./utils.js";
 import { askPerNode } from "./prompts.js";
-import { Logger } from "./logger.js";
+import { getRunLogger } from "./logger.js";
+import { planTemplateDir, templateContext } from "./template-engine.js";
 
 const byName = (n: TreeNode, m: RegExp) => m.test(n.name) || m.test(path.basename(n.path));
 
@@ -17,7 +17,7 @@ export const NextAppDetector: Detector = {
   },
   prompt: async (n) => askPerNode(n, "create-next-app"),
   generate: async (n, cfg) => {
-    const logger = new Logger(cfg.logging, cfg.targetDir);
+    const logger = getRunLogger(cfg);
     const startTime = Date.now();
     
     logger.verbose('Starting Next.js app generation', {
@@ -89,7 +89,6 @@ export const NextAppDetector: Detector = {
       cmd: "npx",
       args,
       env: {
-        ...process.env,
         FORCE_COLOR: "1",
         CI: cfg.yes ? "true" : "false"
       }
@@ -119,7 +118,7 @@ export const FirebaseDetector: Detector = {
   },
   prompt: async (n) => askPerNode(n, "firebase-init"),
   generate: async (n, cfg) => {
-    const logger = new Logger(cfg.logging, cfg.targetDir);
+    const logger = getRunLogger(cfg);
     logger.startTimer('firebase-init');
     
     logger.verbose('Starting Firebase initialization', {
@@ -183,7 +182,6 @@ export const FirebaseDetector: Detector = {
         cmd: "firebase",
         args: ["--version"],
         env: {
-          ...process.env,
           FORCE_COLOR: "1"
         }
       });
@@ -213,7 +211,6 @@ export const FirebaseDetector: Detector = {
       cmd: "firebase", 
       args: ["init"],
       env: {
-        ...process.env,
         FORCE_COLOR: "1",
         CI: cfg.yes ? "true" : "false"
       }
@@ -244,7 +241,7 @@ export const PkgDetector: Detector = {
   },
   prompt: async (n) => askPerNode(n, "npm-init"),
   generate: async (n, cfg) => {
-    const logger = new Logger(cfg.logging, cfg.targetDir);
+    const logger = getRunLogger(cfg);
     logger.startTimer('npm-init');
     
     logger.verbose('Starting package.json initialization', {
@@ -273,7 +270,7 @@ export const PkgDetector: Detector = {
     }
     logger.endTimer('npm-check-files');
 
-    if (existingFiles.length > 0 && cfg.skipExisting) {
+    if (existingFiles.length > 0 && (cfg.skipExisting || cfg.preservePackageJson)) {
       logger.info('Skipping package.json initialization - file exists', {
         target: n.path
       });
@@ -310,7 +307,6 @@ export const PkgDetector: Detector = {
         cmd: pm.init[0], 
         args: ["--version"],
         env: {
-          ...process.env,
           FORCE_COLOR: "1"
         }
       });
@@ -344,7 +340,6 @@ export const PkgDetector: Detector = {
       cmd: pm.init[0], 
       args: initArgs,
       env: {
-        ...process.env,
         FORCE_COLOR: "1",
         CI: cfg.yes ? "true" : "false"
       }
@@ -408,7 +403,6 @@ export const CustomDetector = (init: CustomInitializer): Detector => ({
       cmd: init.command,
       args: init.args || [],
       env: {
-        ...process.env,
         ...init.env,
         FORCE_COLOR: "1",
         CI: cfg.yes ? "true" : "false"
@@ -449,7 +443,7 @@ const createGenericDetector = (
   },
   prompt: async (n) => askPerNode(n, id),
   generate: async (n, cfg) => {
-    const logger = new Logger(cfg.logging, cfg.targetDir);
+    const logger = getRunLogger(cfg);
     logger.startTimer(id);
     
     const actions: GeneratorResult["actions"] = [];
@@ -532,35 +526,22 @@ const createGenericDetector = (
     // Check for custom templates
     if (cfg.templateDir) {
       const templatePath = path.join(cfg.templateDir, id);
-      try {
-        const templateFiles = await fs.readdir(templatePath);
-        for (const file of templateFiles) {
-          const content = await fs.readFile(
-            path.join(templatePath, file),
-            'utf8'
-          );
-          
-          // Replace variables if any
-          let processedContent = content;
-          if (cfg.variables) {
-            Object.entries(cfg.variables).forEach(([key, value]) => {
-              processedContent = processedContent.replace(
-                new RegExp(`\\$\\{${key}\\}`, 'g'),
-                value
-              );
-            });
-          }
-
-          actions.push({
-            type: "write",
-            path: path.join(n.path, file),
-            content: processedContent
+      const templateActions = planTemplateDir(templatePath, n.path, templateContext(cfg, n, { detectorId: id }));
+      if (templateActions.length === 0) {
+        logger.debug(`No custom templates found for ${id}`, { target: templatePath });
+      }
+
+      for (const action of templateActions) {
+        // Older templates use literal ${key} placeholders for cfg.variables
+        if (action.type === "write" && cfg.variables) {
+          Object.entries(cfg.variables).forEach(([key, value]) => {
+            action.content = action.content.replace(
+              new RegExp(`\\$\\{${key}\\}`, 'g'),
+              String(value)
+            );
           });
         }
-      } catch (e) {
-        logger.debug(`No custom templates found for ${id}`, {
-          error: e instanceof Error ? e.message : String(e)
-        });
+        actions.push(action);
       }
     }
 
@@ -763,5 +744,13 @@ export const getDetectors = (cfg: ForgeConfig): Detector[] => {
     DocsDetector
   ];
   const custom = cfg.customInitializers?.map(CustomDetector) || [];
-  return [...builtIn, ...custom];
+  const all = [...builtIn, ...custom];
+
+  // `detectors.enable` keeps only the listed IDs, `detectors.disable` drops them
+  const { enable, disable = [] } = cfg.detectors ?? {};
+  const unknown = [...(enable ?? []), ...disable].filter(id => !all.some(d => d.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown detector ${unknown.map(id => `"${id}"`).join(", ")} (available: ${all.map(d => d.id).join(", ")})`);
+  }
+  return all.filter(d => (!enable || enable.includes(d.id)) && !disable.includes(d.id));
 };
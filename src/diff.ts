@@ -0,0 +1,78 @@
+import chalk from "chalk";
+
+export type DiffLine = {
+  type: "same" | "add" | "remove";
+  text: string;
+};
+
+// Above this many line pairs the LCS table gets too large to be worth building
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line diff between two texts based on the longest common subsequence.
+ * Returns undefined when the inputs are too large to diff.
+ */
+export function diffLines(before: string, after: string): DiffLine[] | undefined {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+  if (a.length * b.length > MAX_DIFF_CELLS) return undefined;
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ type: "remove", text: a[i++] });
+    } else {
+      out.push({ type: "add", text: b[j++] });
+    }
+  }
+  while (i < a.length) out.push({ type: "remove", text: a[i++] });
+  while (j < b.length) out.push({ type: "add", text: b[j++] });
+  return out;
+}
+
+/**
+ * Renders a diff for the terminal, keeping `context` unchanged lines around each change.
+ */
+export function formatDiff(before: string, after: string, context = 3): string {
+  const lines = diffLines(before, after);
+  if (!lines) {
+    return chalk.dim(`  (too large to diff: ${before.length} → ${after.length} bytes)`);
+  }
+
+  const changed = lines.map(l => l.type !== "same");
+  const visible = lines.map((_, idx) => {
+    for (let k = Math.max(0, idx - context); k <= Math.min(lines.length - 1, idx + context); k++) {
+      if (changed[k]) return true;
+    }
+    return false;
+  });
+
+  const out: string[] = [];
+  let skipped = false;
+  lines.forEach((line, idx) => {
+    if (!visible[idx]) {
+      if (!skipped) out.push(chalk.dim("  ..."));
+      skipped = true;
+      return;
+    }
+    skipped = false;
+    if (line.type === "add") out.push(chalk.green(`+ ${line.text}`));
+    else if (line.type === "remove") out.push(chalk.red(`- ${line.text}`));
+    else out.push(chalk.dim(`  ${line.text}`));
+  });
+  return out.join("\n");
+}
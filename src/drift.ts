@@ -0,0 +1,148 @@
+import path from "path";
+import type { TreeNode } from "./types.js";
+import { walkDirectory, type CaptureNode } from "./capture.js";
+
+export type DriftFormat = "text" | "json" | "junit";
+
+type Kind = "file" | "dir";
+
+export type DriftEntry =
+  | { issue: "missing"; path: string; expected: Kind }
+  | { issue: "extra"; path: string; actual: Kind }
+  | { issue: "kind"; path: string; expected: Kind; actual: Kind };
+
+export type DriftReport = {
+  dir: string;
+  checked: string[];      // Every path the spec expects, relative to dir
+  entries: DriftEntry[];  // Only the topmost path of a missing or extra subtree is listed
+};
+
+export type DriftOptions = {
+  gitignore?: boolean;    // Ignore paths matched by .gitignore (default: true)
+  rootIsDir?: boolean;    // The spec's single root directory is the checked directory, as in captured trees
+};
+
+function specPaths(roots: TreeNode[], rootIsDir: boolean): Map<string, Kind> {
+  if (rootIsDir && (roots.length !== 1 || roots[0].kind !== "dir")) {
+    throw new Error("--root-is-dir needs a spec with a single root directory");
+  }
+  const top = rootIsDir ? roots[0].children : roots;
+  const paths = new Map<string, Kind>();
+  const visit = (node: TreeNode, parent: string) => {
+    const rel = parent ? `${parent}/${node.name}` : node.name;
+    paths.set(rel, node.kind);
+    node.children.forEach(child => visit(child, rel));
+  };
+  top.forEach(node => visit(node, ""));
+  return paths;
+}
+
+function diskPaths(node: CaptureNode, parent = "", paths = new Map<string, Kind>()) {
+  for (const child of node.children) {
+    const rel = parent ? `${parent}/${child.name}` : child.name;
+    paths.set(rel, child.isDirectory ? "dir" : "file");
+    diskPaths(child, rel, paths);
+  }
+  return paths;
+}
+
+// True when an ancestor of rel is already reported
+function underReported(rel: string, reported: Set<string>) {
+  for (let dir = path.posix.dirname(rel); dir !== "."; dir = path.posix.dirname(dir)) {
+    if (reported.has(dir)) return true;
+  }
+  return false;
+}
+
+/**
+ * Compares the parsed spec with what is on disk by relative path and kind.
+ * EXCLUDED_DIRS and .gitignore matches are never reported as extra.
+ */
+export function checkDrift(roots: TreeNode[], dir: string, options: DriftOptions = {}): DriftReport {
+  const root = path.resolve(dir);
+  const expected = specPaths(roots, !!options.rootIsDir);
+  const actual = diskPaths(walkDirectory(root, { gitignore: options.gitignore }));
+  const entries: DriftEntry[] = [];
+  const reported = new Set<string>();
+
+  for (const [rel, kind] of expected) {
+    if (underReported(rel, reported)) continue;
+    const found = actual.get(rel);
+    if (found === undefined) {
+      entries.push({ issue: "missing", path: rel, expected: kind });
+    } else if (found !== kind) {
+      entries.push({ issue: "kind", path: rel, expected: kind, actual: found });
+    } else {
+      continue;
+    }
+    reported.add(rel);
+  }
+
+  for (const [rel, kind] of actual) {
+    if (expected.has(rel) || underReported(rel, reported)) continue;
+    entries.push({ issue: "extra", path: rel, actual: kind });
+    reported.add(rel);
+  }
+
+  return { dir: root, checked: [...expected.keys()], entries };
+}
+
+function describe(entry: DriftEntry) {
+  switch (entry.issue) {
+    case "missing":
+      return `missing ${entry.expected}`;
+    case "extra":
+      return `unexpected ${entry.actual}`;
+    case "kind":
+      return `expected a ${entry.expected}, found a ${entry.actual}`;
+  }
+}
+
+function escapeXml(text: string) {
+  return text.replace(/[<>&"']/g, ch => `&#${ch.charCodeAt(0)};`);
+}
+
+export function formatDriftReport(report: DriftReport, format: DriftFormat = "text"): string {
+  if (format === "json") {
+    return JSON.stringify({ ...report, drift: report.entries.length > 0 }, null, 2);
+  }
+
+  if (format === "junit") {
+    // One test case per expected path plus one per unexpected path. Paths inside
+    // a missing directory fail with their directory's message.
+    const failures = new Map(report.entries.map(e => [e.path, e]));
+    const failureFor = (rel: string): DriftEntry | undefined => {
+      for (let p = rel; p !== "."; p = path.posix.dirname(p)) {
+        if (failures.has(p)) return failures.get(p);
+      }
+      return undefined;
+    };
+    const extras = report.entries.filter(e => e.issue === "extra").map(e => e.path);
+    let failed = 0;
+    const cases = [...report.checked, ...extras].map(rel => {
+      const entry = failureFor(rel);
+      const name = `name="${escapeXml(rel)}" classname="forge-tree.check"`;
+      if (!entry) return `    <testcase ${name}/>`;
+      failed++;
+      const message = entry.path === rel ? describe(entry) : `${entry.path}: ${describe(entry)}`;
+      return `    <testcase ${name}>\n      <failure message="${escapeXml(message)}"/>\n    </testcase>`;
+    });
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<testsuites>`,
+      `  <testsuite name="${escapeXml(report.dir)}" tests="${cases.length}" failures="${failed}">`,
+      ...cases,
+      `  </testsuite>`,
+      `</testsuites>`
+    ].join("\n");
+  }
+
+  if (report.entries.length === 0) {
+    return `✓ ${report.dir} matches the spec (${report.checked.length} paths)`;
+  }
+  const symbol = { missing: "-", extra: "+", kind: "~" };
+  return [
+    `✗ ${report.dir} has drifted from the spec (${report.entries.length} issue(s)):`,
+    ...report.entries.map(e => `  ${symbol[e.issue]} ${e.path}: ${describe(e)}`)
+  ].join("\n");
+}
@@ -0,0 +1,155 @@
+import path from "path";
+import type { PlanAction } from "./types.js";
+import type { Logger } from "./logger.js";
+
+export const DEFAULT_CONCURRENCY = 4;
+
+// Paths an action reads or changes; an exec owns its whole working directory
+function scopesOf(action: PlanAction): string[] {
+  if (action.type === "exec") return [path.resolve(action.cwd)];
+  if (action.type === "copy") return [path.resolve(action.from), path.resolve(action.path)];
+  return [path.resolve(action.path)];
+}
+
+// Every directory above p, nearest first
+function ancestorsOf(p: string): string[] {
+  const dirs: string[] = [];
+  let dir = p;
+  while (path.dirname(dir) !== dir) {
+    dir = path.dirname(dir);
+    dirs.push(dir);
+  }
+  return dirs;
+}
+
+function addTo(index: Map<string, number[]>, key: string, value: number) {
+  const list = index.get(key);
+  if (list) list.push(value);
+  else index.set(key, [value]);
+}
+
+/**
+ * For each action, the earlier actions it has to wait for: anything on the same
+ * path, a parent or a child of it (so parent mkdirs come first and an exec waits
+ * for the files under its directory), and every earlier exec, since commands
+ * share the terminal.
+ */
+export function planDependencies(plan: PlanAction[]): number[][] {
+  // Earlier actions by the path they touch, and by every directory above that path,
+  // so each action looks up its own path and ancestors instead of every earlier action
+  const at = new Map<string, number[]>();
+  const below = new Map<string, number[]>();
+  const execs: number[] = [];
+  return plan.map((action, i) => {
+    const deps = new Set<number>(action.type === "exec" ? execs : []);
+    const scopes = scopesOf(action);
+    for (const scope of scopes) {
+      below.get(scope)?.forEach(j => deps.add(j));
+      [scope, ...ancestorsOf(scope)].forEach(dir => at.get(dir)?.forEach(j => deps.add(j)));
+    }
+    for (const scope of scopes) {
+      addTo(at, scope, i);
+      ancestorsOf(scope).forEach(dir => addTo(below, dir, i));
+    }
+    if (action.type === "exec") execs.push(i);
+    return [...deps].sort((a, b) => a - b);
+  });
+}
+
+/**
+ * Runs steps as soon as their dependencies are done, at most `concurrency` at a
+ * time, preferring earlier steps. After a failure no new step starts; the first
+ * error is thrown once running steps have settled.
+ */
+export function runScheduled(deps: number[][], concurrency: number, runStep: (index: number) => Promise<void>): Promise<void> {
+  const waiting = deps.map(d => d.length);
+  const dependents: number[][] = deps.map(() => []);
+  deps.forEach((d, i) => d.forEach(j => dependents[j].push(i)));
+
+  const ready = waiting.flatMap((count, i) => count === 0 ? [i] : []);
+  const makeReady = (index: number) => {
+    let at = ready.length;
+    while (at > 0 && ready[at - 1] > index) at--;
+    ready.splice(at, 0, index);
+  };
+
+  let running = 0;
+  let failure: { error: unknown } | undefined;
+  return new Promise((resolve, reject) => {
+    const pump = () => {
+      while (!failure && running < concurrency && ready.length > 0) {
+        const index = ready.shift()!;
+        running++;
+        runStep(index).then(
+          () => {
+            running--;
+            for (const next of dependents[index]) if (--waiting[next] === 0) makeReady(next);
+            pump();
+          },
+          (error) => {
+            running--;
+            failure ??= { error };
+            pump();
+          }
+        );
+      }
+      if (running > 0) return;
+      if (failure) reject(failure.error);
+      else if (ready.length === 0) resolve();
+    };
+    pump();
+  });
+}
+
+/**
+ * Buffers each step's logger calls and replays them in plan order, so the log
+ * reads the same whatever order concurrent steps finish in.
+ */
+export class OrderedLog {
+  private buffers = new Map<number, [string, unknown[]][]>();
+  private completed = new Set<number>();
+  private next = 0;
+
+  constructor(private logger?: Logger) {}
+
+  // A stand-in for the logger that buffers every method call made for step `index`
+  for(index: number): Logger | undefined {
+    if (!this.logger) return undefined;
+    const calls: [string, unknown[]][] = [];
+    this.buffers.set(index, calls);
+    return new Proxy(this.logger, {
+      get: (_, method) => (...args: unknown[]) => {
+        calls.push([String(method), args]);
+      }
+    });
+  }
+
+  complete(index: number) {
+    this.completed.add(index);
+    while (this.completed.has(this.next)) this.replay(this.next++);
+  }
+
+  // Writes out whatever is still buffered, e.g. steps that finished after a failure
+  flush() {
+    [...this.buffers.keys()].sort((a, b) => a - b).forEach(index => this.replay(index));
+  }
+
+  private replay(index: number) {
+    for (const [method, args] of this.buffers.get(index) ?? []) {
+      Reflect.apply(Reflect.get(this.logger!, method), this.logger, args);
+    }
+    this.buffers.delete(index);
+  }
+}
+
+/** Single-line progress for TTYs; returns a callback for applyPlan and a function that clears the line. */
+export function createProgressDisplay(stream: NodeJS.WriteStream = process.stdout) {
+  return {
+    update(done: number, total: number) {
+      if (stream.isTTY) stream.write(`\r⏳ ${done}/${total} actions`);
+    },
+    clear() {
+      if (stream.isTTY) stream.write("\r\x1b[K");
+    }
+  };
+}
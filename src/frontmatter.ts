@@ -0,0 +1,42 @@
+import YAML from "yaml";
+import { isPlainObject } from "./merge.js";
+
+const FENCE = /^---\s*$/;
+
+export type Frontmatter = {
+  data?: Record<string, unknown>;  // Undefined when the text has no frontmatter
+  text: string;                    // The text with the block blanked, so line numbers still match
+};
+
+/**
+ * Splits a leading `---` ... `---` block of YAML (or JSON, which YAML reads too)
+ * off a tree. The block's lines are left empty rather than removed. Errors start
+ * with `Line N:`, counted from the top of the tree.
+ */
+export function splitFrontmatter(text: string): Frontmatter {
+  const lines = text.split(/\r?\n/);
+  if (!FENCE.test(lines[0] ?? "")) return { text };
+  const end = lines.findIndex((line, i) => i > 0 && FENCE.test(line));
+  if (end === -1) {
+    throw new Error("Line 1: The --- block is never closed");
+  }
+
+  const source = lines.slice(1, end).join("\n");
+  let data: unknown;
+  try {
+    data = YAML.parse(source) ?? {};
+  } catch (error) {
+    const linePos = (error as { linePos?: { line: number }[] }).linePos;
+    const line = linePos ? `Line ${linePos[0].line + 1}: ` : "";
+    const message = error instanceof Error ? error.message.split("\n")[0] : String(error);
+    throw new Error(`${line}${message}`);
+  }
+  if (!isPlainObject(data)) {
+    throw new Error("Line 2: Frontmatter must be a mapping of config options");
+  }
+
+  return {
+    data,
+    text: lines.map((line, i) => (i <= end ? "" : line)).join("\n")
+  };
+}
@@ -1,22 +1,21 @@
-import { promises as fs } from "fs";
+import { promises as fs, existsSync, readdirSync, readFileSync } from "fs";
 import path from "path";
 import type { ForgeConfig, PlanAction, TreeNode } from "./types.js";
-import { editorconfig, gitignore, prettierrc, turbo } from "./templates.js";
-import { Logger } from "./logger.js";
+import { builtinTemplates, editorconfig, gitignore, prettierrc, turbo } from "./templates.js";
+import { getRunLogger } from "./logger.js";
+import { renderTemplate, templateContext } from "./template-engine.js";
+import { resolveIncludes, type LoadedTree } from "./tree-include.js";
+import { isContained } from "./containment.js";
 
 // modify planFromTree to compute a proper dotfiles root
 export function planFromTree(nodes: TreeNode[], cfg: ForgeConfig) {
   const plan: PlanAction[] = [];
-  const logger = new Logger(cfg.logging, cfg.targetDir);
+  const logger = getRunLogger(cfg);
 
   const visit = (node: TreeNode) => {
-    if (node.kind === "dir") {
-      plan.push({ type: "mkdir", path: node.path });
-      logger.logDirectoryCreated(node.path);
-    } else {
-      plan.push({ type: "write", path: node.path, content: defaultContent(node) });
-      logger.logFileCreated(node.path);
-    }
+    plan.push(planNode(node, cfg));
+    // Nothing exists yet; applyPlan logs what actually gets created
+    logger.debug('Node Planned', { target: node.path, metadata: { kind: node.kind } });
     for (const ch of node.children) visit(ch);
   };
   for (const r of nodes) visit(r);
@@ -35,7 +34,7 @@ export function planFromTree(nodes: TreeNode[], cfg: ForgeConfig) {
     for (const dotfile of dotfiles) {
       const filePath = path.join(repoRoot, dotfile.name);
       plan.push({ type: "write", path: filePath, content: dotfile.content });
-      logger.logFileCreated(filePath);
+      logger.debug('Node Planned', { target: filePath, metadata: { kind: 'file' } });
     }
   }
 
@@ -46,13 +45,62 @@ export function planFromTree(nodes: TreeNode[], cfg: ForgeConfig) {
   if (!hasTurbo) {
     const turboPath = path.join(repoRoot, "turbo.json");
     plan.push({ type: "write", path: turboPath, content: turbo });
-    logger.logFileCreated(turboPath);
+    logger.debug('Node Planned', { target: turboPath, metadata: { kind: 'file' } });
   }
 
   return plan;
 }
 
 
+// The action creating a single node, without its children
+export function planNode(node: TreeNode, cfg: ForgeConfig): PlanAction {
+  return node.kind === "dir"
+    ? { type: "mkdir", path: node.path }
+    : { type: "write", path: node.path, content: resolveContent(node, cfg) };
+}
+
+// Content declared in the tree wins over the per-extension stubs
+function resolveContent(node: TreeNode, cfg: ForgeConfig) {
+  if (!node.content) return defaultContent(node);
+  const { source, name } = loadContent(node, cfg);
+  return renderTemplate(source, templateContext(cfg, node), name);
+}
+
+function loadContent(node: TreeNode, cfg: ForgeConfig): { source: string; name: string } {
+  const content = node.content!;
+  if (content.type === "inline") return { source: content.text, name: node.path };
+
+  if (content.type === "file") {
+    const base = cfg.treeFile ? path.dirname(path.resolve(cfg.cwd, cfg.treeFile)) : cfg.cwd;
+    const source = path.resolve(base, content.source);
+    // `<= path` only reads files under the tree file's directory or templateDir
+    const allowed = [base, ...(cfg.templateDir ? [path.resolve(cfg.cwd, cfg.templateDir)] : [])];
+    if (!cfg.allowOutside && !allowed.some(dir => isContained(source, dir))) {
+      throw new Error(`Refusing to read ${content.source} for ${node.path}: ${source} is outside the tree file's directory ${base} (use --allow-outside to permit this)`);
+    }
+    if (!existsSync(source)) {
+      throw new Error(`Content file for ${node.path} not found: ${source}`);
+    }
+    return { source: readFileSync(source, "utf8"), name: source };
+  }
+
+  if (cfg.templateDir && existsSync(cfg.templateDir)) {
+    const match = readdirSync(cfg.templateDir).find(
+      (f) => f === content.name || f.startsWith(content.name + ".")
+    );
+    if (match) {
+      const file = path.join(cfg.templateDir, match);
+      return { source: readFileSync(file, "utf8"), name: file };
+    }
+  }
+  if (content.name in builtinTemplates) {
+    return { source: builtinTemplates[content.name], name: `@template:${content.name}` };
+  }
+  throw new Error(
+    `Unknown template "${content.name}" for ${node.path} (built-in: ${Object.keys(builtinTemplates).join(", ")})`
+  );
+}
+
 function defaultContent(node: TreeNode) {
   if (node.name.endsWith(".json")) return "{}\n";
   if (node.name.endsWith(".ts") || node.name.endsWith(".tsx")) return "";
@@ -61,12 +109,24 @@ function defaultContent(node: TreeNode) {
   return "";
 }
 
-export async function loadTreeSource(cfg: ForgeConfig) {
-  const logger = new Logger(cfg.logging, cfg.targetDir);
+/**
+ * Reads the tree from cfg.treeText or cfg.treeFile and splices in any
+ * `@include` fragments. `sources` maps the result back to the files.
+ */
+export async function loadTreeSource(cfg: ForgeConfig): Promise<LoadedTree> {
+  const logger = getRunLogger(cfg);
+  const withIncludes = async (text: string, file?: string) => {
+    const loaded = await resolveIncludes(text, file, cfg.cwd);
+    if (loaded.sources) {
+      const files = [...new Set(loaded.sources.map(s => s.file))];
+      logger.info('Tree fragments included', { metadata: { files } });
+    }
+    return loaded;
+  };
   try {
     if (cfg.treeText) {
       logger.info('Loading tree from text input');
-      return cfg.treeText;
+      return await withIncludes(cfg.treeText);
     }
     if (cfg.treeFile) {
       logger.info('Loading tree from file', { target: cfg.treeFile });
@@ -77,10 +137,10 @@ export async function loadTreeSource(cfg: ForgeConfig) {
           lines: content.split('\n').length
         }
       });
-      return content;
+      return await withIncludes(content, cfg.treeFile);
     }
     logger.warn('No tree source provided');
-    return "";
+    return { text: "" };
   } catch (error) {
     logger.error('Failed to load tree source', {
       error: error instanceof Error ? error.message : String(error),
@@ -2,22 +2,68 @@
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
 import path from "path";
-import { parseTree } from "./parser.js";
+import { interpolateTree, parseTree, parseTreeWithReport } from "./parser.js";
 import { applyPlan, detectPM } from "./utils.js";
 import { planFromTree } from "./generators.js";
 import { getDetectors } from "./detectors.js";
-import { askGlobalOptions, chooseDetectors, confirmPlan } from "./prompts.js";
-import type { ForgeConfig, LogLevel, PlanAction, TreeNode, DetectorEvents } from "./types.js";
+import { askGlobalOptions, askRemovedNodes, chooseDetectors, confirmPlan } from "./prompts.js";
+import type { ForgeConfig, LogLevel, PathRewrite, PlanAction, PlanOrigin, TreeNode, DetectorEvents } from "./types.js";
 import { DEFAULT_LOG_CONFIG, STATS_LOG_CONFIG } from "./types.js";
-import { Logger } from "./logger.js";
+import { Logger, endRunLogger, startRunLogger } from "./logger.js";
+import { runFilePath, runStartedAt } from "./log-runs.js";
 import { DetectorManager } from "./detector-manager.js";
 import { displayGeneratedStructure, scanDirectory } from "./scan.js";
 import { loadTreeSource } from "./generators.js";
+import { resolveIncludes } from "./tree-include.js";
 import chalk from "chalk";
 import { setupGit } from "./git.js";
 import fs from "fs";
-import { Cache } from "./cache.js";
+import os from "os";
+import { execa } from "execa";
+import { Cache, type RunRecord } from "./cache.js";
 import { openLogViewer } from "./log-viewer.js";
+import { configSnapshot, loadProjectConfig, loadTreeConfig, mergeConfig, parsePreArgv, splitConfigForCli, type LoadedConfig } from "./config.js";
+import { loadManifest, rollbackManifest } from "./journal.js";
+import { captureTree, DEFAULT_MAX_CONTENT_SIZE } from "./capture.js";
+import { checkDrift, formatDriftReport, type DriftFormat } from "./drift.js";
+import { diffTree, loadSyncState, planRemoved, planSync, saveSyncState } from "./sync.js";
+import { checkPlanFile, createPlanFile, DEFAULT_PLAN_FILE, hashText, loadPlanFile, writePlanFile } from "./plan-file.js";
+import { createProgressDisplay, DEFAULT_CONCURRENCY } from "./executor.js";
+import { assertInsideTarget } from "./containment.js";
+import { describeOrigin, normalizePlan, type NormalizedPlan } from "./plan-normalize.js";
+import { collectTemplateManifests, parseVarFlags, resolveTemplateVariables } from "./template-vars.js";
+import { REDACTED, Redactor } from "./redact.js";
+
+// Resolve the project config before the real parse so its values can sit between
+// yargs defaults and explicitly passed flags
+const preArgv = parsePreArgv(hideBin(process.argv));
+
+let projectConfig: LoadedConfig = { config: {}, files: [] };
+const standalone = ["view", "rollback", "capture", "apply", "runs"].some(cmd => preArgv._.includes(cmd));
+if (!standalone) {
+  try {
+    projectConfig = await loadProjectConfig({ cwd: process.cwd(), configFile: preArgv.config });
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
+// Tree frontmatter overrides the config file; explicit flags still override both
+let treeConfig: Partial<ForgeConfig> = {};
+if (!standalone) {
+  try {
+    treeConfig = await loadTreeConfig({
+      cwd: process.cwd(),
+      treeFile: preArgv["tree-file"] ?? (preArgv.tree === undefined ? projectConfig.config.treeFile : undefined),
+      treeText: preArgv.tree ?? projectConfig.config.treeText
+    });
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+const fileConfig = splitConfigForCli(mergeConfig(projectConfig.config, treeConfig));
 
 const argv = await yargs(hideBin(process.argv))
   .scriptName("forge-tree")
@@ -25,6 +71,11 @@ const argv = await yargs(hideBin(process.argv))
   .positional("targetDir", { type: "string", describe: "Where to scaffold", default: "." })
   .option("tree-file", { type: "string", describe: "Path to ASCII tree file" })
   .option("tree", { type: "string", describe: "ASCII tree string (quoted)" })
+  .option("config", {
+    type: "string",
+    describe: "Path to a forge-tree config file (default: nearest forge-tree.config.* or package.json \"forgeTree\"; --no-config to skip)"
+  })
+  .config(fileConfig.argv)
   .option("tabIndentationSize", { type: "number", default: 2, describe: "Spaces per depth level" })
   .option("detectAsciiGuides", { type: "boolean", default: true, describe: "Skip │ ├ └ guides" })
   .option("dry-run", { type: "boolean", default: false, describe: "Print actions only" })
@@ -41,8 +92,54 @@ const argv = await yargs(hideBin(process.argv))
   .option("private", { type: "boolean", default: false, describe: "Create the GitHub repo as private (with --github)" })
   .option("no-push", { type: "boolean", default: false, describe: "Do not push after creating/adding remote" })
   .option("branch", { type: "string", default: "main", describe: "Initial branch name" })
+  .option("overwrite", {
+    type: "string",
+    choices: ["ask", "skip", "force"] as const,
+    default: "ask",
+    describe: "What to do when a file to write already exists"
+  })
+  .option("skip-existing", { type: "boolean", default: false, describe: "Never touch files that already exist" })
+  .option("backup", { type: "boolean", default: false, describe: "Move overwritten files to .forge-tree-backup/<timestamp>/" })
+  .option("var", {
+    type: "string",
+    array: true,
+    describe: "Set a template variable (key=value, repeatable)"
+  })
+  .option("transactional", {
+    type: "boolean",
+    default: false,
+    describe: "Record changes to .forge-tree/manifests/ and roll them back if a step fails or on Ctrl-C"
+  })
+  .option("sync", {
+    type: "boolean",
+    default: false,
+    describe: "Only create nodes missing on disk; skips dotfiles and runs detectors for new nodes only"
+  })
+  .option("removed", {
+    type: "string",
+    choices: ["ask", "keep", "delete", "archive"] as const,
+    default: "ask",
+    describe: "With --sync: what to do with paths removed from the tree since the last run"
+  })
+  .option("on-conflict", {
+    type: "string",
+    choices: ["tree", "detector", "merge", "error"] as const,
+    default: "tree",
+    describe: "Resolve a tree node and a detector writing the same file"
+  })
+  .option("concurrency", {
+    type: "number",
+    default: DEFAULT_CONCURRENCY,
+    describe: "How many independent plan steps to apply at once"
+  })
+  .option("allow-outside", {
+    type: "boolean",
+    default: false,
+    describe: "Allow plan steps to write or run outside the target directory"
+  })
   .option("log", { type: "boolean", default: true, describe: "Enable logging" })
   .option("log-file", { type: "string", describe: "Log file path (relative to target dir)" })
+  .option("log-per-run", { type: "boolean", default: false, describe: "Write each run's log and stats to .forge-tree/runs/<runId>/" })
   .option("log-level", { 
     type: "string", 
     choices: ["silent", "error", "warn", "info", "debug", "verbose"] as const,
@@ -137,9 +234,13 @@ const argv = await yargs(hideBin(process.argv))
         describe: "Include stats file when viewing logs",
         alias: "ws"
       })
+      .option("run", {
+        type: "string",
+        describe: "View the log and stats of a recent run (ID, ID prefix or \"latest\")"
+      })
       .option("list", {
         type: "boolean",
-        describe: "List recent log and stats files",
+        describe: "List recent runs and log and stats files",
         alias: "ls"
       })
       .option("cleanup", {
@@ -178,15 +279,295 @@ const argv = await yargs(hideBin(process.argv))
       .example("$0 view --stats", "View default stats file")
       .example("$0 view --log --with-stats", "View logs with stats")
       .example("$0 view -l -ws", "Same as above, using short aliases")
-      .example("$0 view --list", "List recent log and stats files")
+      .example("$0 view --run latest", "View the log and stats of the last run")
+      .example("$0 view --list", "List recent runs and log and stats files")
       .example("$0 view --cleanup", "Remove non-existent files from cache")
       .example("$0 view --clear", "Clear all cache entries")
       .example("$0 view --export-cache backup.json", "Export cache")
       .example("$0 view --import-cache backup.json", "Import cache")
       .example("$0 view --cache-limit 20", "Set cache limit to 20 files");
   })
+  .command("rollback <manifest>", "Undo the changes recorded in a run manifest", (yargs) => {
+    return yargs
+      .positional("manifest", { type: "string", describe: "Manifest written by a --transactional run" })
+      .option("force", {
+        type: "boolean",
+        default: false,
+        describe: "Also remove files changed since the run and non-empty directories"
+      })
+      .example("$0 rollback .forge-tree/manifests/2024-05-01T10-00-00-000Z.json", "Undo a previous run");
+  })
+  .command("capture <dir>", "Generate a tree file from an existing directory", (yargs) => {
+    return yargs
+      .positional("dir", { type: "string", describe: "Directory to capture" })
+      .option("out", { type: "string", alias: "o", describe: "Write the tree to this file instead of stdout" })
+      .option("depth", { type: "number", describe: "Maximum depth below the directory" })
+      .option("style", {
+        type: "string",
+        choices: ["unicode", "simple"],
+        default: "unicode",
+        describe: "Guide characters: unicode (│ ├ └) or simple (| + `)"
+      })
+      .option("contents", { type: "boolean", default: false, describe: "Embed small text files as heredocs" })
+      .option("max-content-size", {
+        type: "number",
+        default: DEFAULT_MAX_CONTENT_SIZE,
+        describe: "Largest file (bytes) embedded with --contents"
+      })
+      .option("gitignore", { type: "boolean", default: true, describe: "Skip paths matched by .gitignore (--no-gitignore to include them)" })
+      .example("$0 capture ./my-app -o my-app.tree", "Snapshot a project layout")
+      .example("$0 capture . --depth 2 --style simple", "Print the top two levels with ASCII guides");
+  })
+  .command("check [dir]", "Compare a directory against the tree spec and exit non-zero on drift", (yargs) => {
+    return yargs
+      .positional("dir", { type: "string", default: ".", describe: "Directory to check" })
+      .option("format", {
+        type: "string",
+        choices: ["text", "json", "junit"],
+        default: "text",
+        describe: "Report format"
+      })
+      .option("out", { type: "string", alias: "o", describe: "Write the report to this file instead of stdout" })
+      .option("gitignore", { type: "boolean", default: true, describe: "Don't report paths matched by .gitignore as extra" })
+      .option("root-is-dir", { type: "boolean", default: false, describe: "Treat the spec's single root directory as the checked directory itself (trees from `capture`)" })
+      .example("$0 check --tree-file layout.tree .", "Fail if the repository no longer matches layout.tree")
+      .example("$0 check --tree-file app.tree --root-is-dir ./app", "Check a directory against a tree captured from it")
+      .example("$0 check --tree-file layout.tree --format junit -o drift.xml", "Report for CI test dashboards");
+  })
+  .command("plan [targetDir]", "Write the resolved plan to a JSON file for review instead of applying it", (yargs) => {
+    return yargs
+      .positional("targetDir", { type: "string", default: ".", describe: "Where to scaffold" })
+      .option("out", { type: "string", alias: "o", default: DEFAULT_PLAN_FILE, describe: "Plan file to write" })
+      .example("$0 plan ./app --tree-file app.tree -o app.plan.json", "Plan, review, then `apply app.plan.json`");
+  })
+  .command("apply <plan>", "Execute a plan file written by `plan`", (yargs) => {
+    return yargs
+      .positional("plan", { type: "string", describe: "Plan file" })
+      .option("force", {
+        type: "boolean",
+        default: false,
+        describe: "Apply even if the target directory changed since the plan was made"
+      })
+      .example("$0 apply app.plan.json --yes", "Apply a reviewed plan");
+  })
+  .command("runs <action> [id]", "List, inspect and replay previous runs", (yargs) => {
+    return yargs
+      .positional("action", { type: "string", choices: ["list", "show", "rerun"] as const })
+      .positional("id", { type: "string", describe: "Run ID, a unique prefix of one, or \"latest\"" })
+      .option("dir", { type: "string", describe: "list: only runs that targeted this directory" })
+      .option("json", { type: "boolean", default: false, describe: "show: print the whole record as JSON" })
+      .option("target", { type: "string", describe: "rerun: scaffold into this directory instead of the original one" })
+      .example("$0 runs list --dir ./app", "How was ./app scaffolded?")
+      .example("$0 runs show latest", "Config, tree and outcome of the last run")
+      .example("$0 runs rerun 2024-05-01T10-00 --target /tmp/copy --dry-run", "Replay a run somewhere else");
+  })
   .help().argv as any;
 
+if (argv._[0] === "rollback") {
+  try {
+    const manifestFile = path.resolve(String(argv.manifest));
+    const manifest = loadManifest(manifestFile);
+    const result = await rollbackManifest(manifest, { force: !!argv.force });
+
+    console.log(chalk.green(`↩ Rolled back ${result.undone.length} change(s) from ${manifestFile}`));
+    if (result.kept.length > 0) {
+      console.log(chalk.yellow(`⚠ Kept ${result.kept.length} path(s) (use --force to remove them):`));
+      result.kept.forEach(k => console.log(chalk.dim(`  • ${k.path}: ${k.reason}`)));
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(chalk.red("Rollback failed:"), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+if (argv._[0] === "runs") {
+  try {
+    const registry = new Cache();
+    await registry.load();
+
+    if (argv.action === "list") {
+      const dir = argv.dir ? path.resolve(String(argv.dir)) : undefined;
+      const runs = registry.getRecentRuns().filter(r => !dir || r.targetDir === dir);
+      if (runs.length === 0) {
+        console.log(chalk.yellow(dir ? `No recorded runs for ${dir}` : "No recorded runs"));
+      }
+      runs.forEach(r => {
+        const total = Object.values(r.actions ?? {}).reduce((sum, n) => sum + n, 0);
+        const outcome = r.outcome === "succeeded" ? chalk.green(r.outcome) : r.outcome === "failed" ? chalk.red(r.outcome) : chalk.yellow(r.outcome ?? "unknown");
+        console.log(`${r.id}  ${outcome}  ${chalk.dim(`${r.command ?? "scaffold"}, ${total} actions, ${formatDuration(r.durationMs)}`)}  ${r.targetDir}`);
+      });
+      process.exit(0);
+    }
+
+    const record = registry.findRun(String(argv.id ?? "latest"));
+    if (!record) {
+      throw new Error(`No recorded run matches "${argv.id ?? "latest"}" (see \`forge-tree runs list\`)`);
+    }
+
+    if (argv.action === "show") {
+      if (argv.json) {
+        console.log(JSON.stringify(record, null, 2));
+        process.exit(0);
+      }
+      const rows: [string, string | undefined][] = [
+        ["Command", record.command],
+        ["Outcome", record.outcome],
+        ["Started", record.startedAt],
+        ["Duration", formatDuration(record.durationMs)],
+        ["Target", record.targetDir],
+        ["Tree", record.tree && `${record.tree.file ?? "(inline)"} sha256:${record.tree.hash.slice(0, 12)}`],
+        ["Plan", record.planFile],
+        ["Actions", record.actions && Object.entries(record.actions).map(([type, n]) => `${type} ${n}`).join(", ")],
+        ["Detectors", record.detectors && (record.detectors.join(", ") || "none")],
+        ["Log", record.logFile],
+        ["Stats", record.statsFile]
+      ];
+      console.log(chalk.blue(`Run ${record.id}`));
+      rows.filter(([, value]) => value !== undefined).forEach(([label, value]) => console.log(`  ${chalk.dim(label.padEnd(10))} ${value}`));
+      if (record.config) {
+        console.log(`  ${chalk.dim("Config")}`);
+        console.log(JSON.stringify(record.config, null, 2).split("\n").map(line => "    " + line).join("\n"));
+      }
+      process.exit(0);
+    }
+
+    // rerun: replay the recorded tree and config through a fresh forge-tree process
+    const source = record.tree?.copy && fs.existsSync(record.tree.copy) ? fs.readFileSync(record.tree.copy, "utf8") : undefined;
+    if (!record.tree || !source || !record.config) {
+      throw new Error(record.planFile
+        ? `Run ${record.id} applied ${record.planFile}; replay it with \`forge-tree apply ${record.planFile}\``
+        : `Run ${record.id} has no recorded tree and config to replay`);
+    }
+    // The recorded hash covers included fragments too; a fragment that went missing counts as a change
+    const currentTree = record.tree.file && fs.existsSync(record.tree.file)
+      ? await resolveIncludes(fs.readFileSync(record.tree.file, "utf8"), record.tree.file, record.cwd ?? process.cwd()).catch(() => ({ text: "" }))
+      : undefined;
+    if (currentTree && hashText(currentTree.text) !== record.tree.hash) {
+      console.log(chalk.yellow(`⚠ ${record.tree.file} changed since run ${record.id}; replaying the tree as it was then`));
+    }
+
+    const replay = { ...record.config };
+    // How the run was invoked, rather than what it produced
+    for (const key of ["targetDir", "treeFile", "treeText", "dryRun", "yes", "quiet"] as const) delete replay[key];
+    const redactedVars = Object.entries(replay.variables ?? {}).filter(([, value]) => value === REDACTED).map(([key]) => key);
+    if (replay.variables) {
+      replay.variables = Object.fromEntries(Object.entries(replay.variables).filter(([key]) => !redactedVars.includes(key)));
+    }
+    if (redactedVars.length > 0) {
+      console.log(chalk.yellow(`⚠ Template variables ${redactedVars.join(", ")} were redacted when recorded; pass them again with --var`));
+    }
+    if (source.includes(REDACTED)) {
+      console.log(chalk.yellow(`⚠ Secrets in the tree were redacted when recorded; the replay writes ${REDACTED} in their place`));
+    }
+
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "forge-tree-rerun-"));
+    try {
+      const configFile = path.join(workDir, "forge-tree.config.json");
+      const treeFile = path.join(workDir, "tree.txt");
+      fs.writeFileSync(configFile, JSON.stringify(replay, null, 2));
+      fs.writeFileSync(treeFile, source);
+
+      const target = argv.target ? path.resolve(String(argv.target)) : record.targetDir;
+      // Same place relative to the target as the original working directory
+      const cwd = path.resolve(target, path.relative(record.targetDir, record.cwd ?? record.targetDir));
+      fs.mkdirSync(cwd, { recursive: true });
+      console.log(chalk.blue(`🔁 Replaying run ${record.id} into ${target}`));
+      const passthrough = [
+        ...(argv.yes ? ["--yes"] : []),
+        ...(argv["dry-run"] ? ["--dry-run"] : []),
+        ...(argv.quiet ? ["--quiet"] : []),
+        ...((argv.var as string[] | undefined) ?? []).flatMap(v => ["--var", v])
+      ];
+      const result = await execa(process.execPath, [...process.execArgv, process.argv[1], target, "--config", configFile, "--tree-file", treeFile, ...passthrough], {
+        cwd,
+        stdio: "inherit",
+        reject: false
+      });
+      process.exitCode = result.exitCode ?? 1;
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+    process.exit();
+  } catch (error) {
+    console.error(chalk.red("Runs failed:"), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+if (argv._[0] === "capture") {
+  try {
+    const tree = captureTree(String(argv.dir), {
+      maxDepth: argv.depth,
+      style: argv.style,
+      contents: argv.contents,
+      maxContentSize: argv["max-content-size"],
+      gitignore: argv.gitignore
+    });
+    if (argv.out) {
+      fs.writeFileSync(path.resolve(String(argv.out)), tree);
+      console.error(chalk.green(`✓ Captured ${path.resolve(String(argv.dir))} to ${argv.out}`));
+    } else {
+      process.stdout.write(tree);
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(chalk.red("Capture failed:"), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+if (argv._[0] === "apply") {
+  try {
+    const planPath = path.resolve(String(argv.plan));
+    const planFile = loadPlanFile(planPath);
+    const { targetChanged, treeChanged } = await checkPlanFile(planFile);
+    if (targetChanged && !argv.force) {
+      throw new Error(`${planFile.targetDir} changed since the plan was made (${planFile.createdAt}). Run \`forge-tree plan\` again or pass --force.`);
+    }
+    if (treeChanged) {
+      console.log(chalk.yellow(`⚠ ${planFile.tree.file} was edited after the plan was made; applying the plan as reviewed`));
+    }
+
+    const actions = planFile.actions.map(a => a.action);
+    console.log(chalk.blue(`📦 Plan from ${planFile.createdAt}: ${actions.length} actions in ${planFile.targetDir}`));
+    if (!(await confirmPlan(actions.length, !!argv.yes))) {
+      console.log(chalk.yellow('⏹ Operation cancelled by user'));
+      process.exit(0);
+    }
+
+    const logger = startRunLogger(DEFAULT_LOG_CONFIG, planFile.targetDir);
+    await registerRun({
+      ...newRunRecord(logger, planFile.targetDir, "apply"),
+      planFile: planPath,
+      config: new Redactor(DEFAULT_LOG_CONFIG.redact).value(planFile.config),
+      tree: { file: planFile.tree.file, hash: planFile.tree.hash },
+      actions: countActions(actions),
+      detectors: [...new Set(planFile.actions.flatMap(a => a.origin.source === "detector" ? [a.origin.detectorId] : []))]
+    });
+    const progress = createProgressDisplay();
+    const { manifestFile } = await applyPlan(actions, false, logger, {
+      ...planFile.config,
+      targetDir: planFile.targetDir,
+      yes: !!argv.yes,
+      concurrency: Number(argv.concurrency),
+      allowOutside: !!argv["allow-outside"],
+      onProgress: progress.update
+    }).finally(progress.clear);
+    if (planFile.config.sync) saveSyncState(planFile.targetDir, { version: 1, updatedAt: planFile.createdAt, nodes: planFile.tree.nodes });
+    console.log(chalk.green('✨ All actions completed successfully'));
+    if (manifestFile) {
+      console.log(chalk.dim(`  🧾 Run manifest: ${manifestFile} (undo with \`forge-tree rollback <manifest>\`)`));
+    }
+    logger.writeSummary();
+    await endRunLogger();
+    process.exit(0);
+  } catch (error) {
+    console.error(chalk.red("Apply failed:"), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
 // Handle log viewer commands first
 if (argv._.includes("view")) {
   try {
@@ -228,10 +609,20 @@ if (argv._.includes("view")) {
     }
 
     if (argv.list) {
-      // Get recent files
+      // Get recent runs and files
+      const recentRuns = cache.getRecentRuns();
       const recentLogs = cache.getRecentLogs();
       const recentStats = cache.getRecentStats();
 
+      if (recentRuns.length > 0) {
+        console.log(chalk.blue("\nRecent runs:"));
+        recentRuns.forEach((run, i) => {
+          console.log(chalk.dim(`  ${i + 1}. ${run.id}  ${run.targetDir}`));
+          if (run.logFile) console.log(chalk.dim(`       log:   ${run.logFile}`));
+          if (run.statsFile) console.log(chalk.dim(`       stats: ${run.statsFile}`));
+        });
+      }
+
       if (recentLogs.length > 0) {
         console.log(chalk.blue("\nRecent log files:"));
         recentLogs.forEach((file: string, i: number) => {
@@ -246,20 +637,26 @@ if (argv._.includes("view")) {
         });
       }
 
-      if (!recentLogs.length && !recentStats.length) {
+      if (!recentRuns.length && !recentLogs.length && !recentStats.length) {
         console.log(chalk.yellow("\nNo recent files found."));
       }
 
       process.exit(0);
     }
 
+    const run = argv.run !== undefined ? cache.findRun(argv.run || "latest") : undefined;
+    if (argv.run !== undefined && !run) {
+      throw new Error(`No recent run matches "${argv.run}" (see \`forge-tree view --list\`)`);
+    }
+
     await openLogViewer({
-      logFile: typeof argv.log === 'string' ? argv.log : undefined,
-      statsFile: typeof argv.stats === 'string' ? argv.stats : undefined,
+      logFile: run ? run.logFile : typeof argv.log === 'string' ? argv.log : undefined,
+      statsFile: run ? run.statsFile : typeof argv.stats === 'string' ? argv.stats : undefined,
       withLog: true,
-      withStats: !!argv["with-stats"],
+      withStats: run ? !!run.statsFile && fs.existsSync(run.statsFile) : !!argv["with-stats"],
       openInChrome: argv["open-in-chrome"],
-      autoOpenOutputs: argv["auto-open"]
+      autoOpenOutputs: argv["auto-open"],
+      runId: run?.id
     });
     process.exit(0);
   } catch (error) {
@@ -268,9 +665,53 @@ if (argv._.includes("view")) {
   }
 }
 
+if (argv._[0] === "check") {
+  try {
+    const dir = path.resolve(String(argv.dir));
+    // Parse with the same settings as a normal run, but never touch the log file
+    const checkCfg: ForgeConfig = {
+      ...fileConfig.rest,
+      cwd: process.cwd(),
+      targetDir: dir,
+      treeText: argv.tree as string | undefined,
+      treeFile: argv["tree-file"] as string | undefined,
+      dryRun: true,
+      yes: true,
+      packageManager: undefined,
+      tabIndentationSize: Number(argv.tabIndentationSize),
+      detectAsciiGuides: !!argv.detectAsciiGuides,
+      runDetectors: false,
+      generateDotfiles: false,
+      quiet: true,
+      logging: { ...DEFAULT_LOG_CONFIG, enabled: false }
+    };
+    checkCfg.variables = { ...checkCfg.variables, ...parseVarFlags(argv.var as string[] | undefined) };
+    if (!checkCfg.treeText && !checkCfg.treeFile) {
+      throw new Error("Pass the spec with --tree-file or --tree");
+    }
+    const { text: source, sources } = await loadTreeSource(checkCfg);
+    const report = checkDrift(parseTree(source, checkCfg, sources), dir, { gitignore: argv.gitignore, rootIsDir: argv["root-is-dir"] });
+    const output = formatDriftReport(report, argv.format as DriftFormat);
+
+    if (argv.out) {
+      fs.writeFileSync(path.resolve(String(argv.out)), output + "\n");
+    } else if (argv.format === "text") {
+      console.log(report.entries.length > 0 ? chalk.red(output) : chalk.green(output));
+    } else {
+      console.log(output);
+    }
+    process.exit(report.entries.length > 0 ? 1 : 0);
+  } catch (error) {
+    console.error(chalk.red("Check failed:"), error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+}
+
 const cfg: ForgeConfig = {
+  ...fileConfig.rest,
   cwd: process.cwd(),
-  targetDir: path.resolve(String(argv._[0] || argv.targetDir)),
+  configFile: projectConfig.files[projectConfig.files.length - 1],
+  targetDir: path.resolve(String(argv._[0] === "plan" ? argv.targetDir : argv._[0] || argv.targetDir)),
   treeText: argv.tree as string | undefined,
   treeFile: argv["tree-file"] as string | undefined,
   dryRun: !!argv["dry-run"],
@@ -281,20 +722,56 @@ const cfg: ForgeConfig = {
   runDetectors: !!argv.detectors,
   generateDotfiles: !!argv.dotfiles,
   quiet: !!argv.quiet,
+  overwriteMode: argv.overwrite as ForgeConfig["overwriteMode"],
+  skipExisting: !!argv["skip-existing"],
+  backup: !!argv.backup,
+  transactional: !!argv.transactional,
+  sync: !!argv.sync,
+  removedMode: argv.removed as ForgeConfig["removedMode"],
+  onConflict: argv["on-conflict"] as ForgeConfig["onConflict"],
+  concurrency: Number(argv.concurrency),
+  allowOutside: !!argv["allow-outside"],
   logging: {
     ...DEFAULT_LOG_CONFIG,
+    ...fileConfig.rest.logging,
     enabled: argv.log,
     level: argv["log-level"] as LogLevel,
     format: argv["log-format"] as "text" | "json",
-    console: !argv.quiet,
+    console: !argv.quiet && (fileConfig.rest.logging?.console ?? true),
+    perRun: argv["log-per-run"],
     ...(argv["log-file"] ? { file: argv["log-file"] } : {})
   }
 };
 
+if (cfg.configFile && !cfg.quiet) {
+  console.log(chalk.blue(`⚙️  Using config: ${cfg.configFile}`));
+}
+if (Object.keys(treeConfig).length > 0 && !cfg.quiet) {
+  console.log(chalk.blue(`⚙️  Using tree frontmatter: ${Object.keys(treeConfig).join(", ")}`));
+}
+
+// Everything below logs through this one logger, so its metrics cover the whole run
+const logger = startRunLogger(cfg.logging, cfg.targetDir);
+const statsFile = runFilePath(cfg.targetDir, STATS_LOG_CONFIG.file || 'forge-tree.stats.json', logger.runId, cfg.logging?.perRun);
+
 // Show log file location if logging is enabled
-if (cfg.logging?.enabled) {
-  const logPath = path.join(cfg.targetDir, cfg.logging.file || 'forge-tree.log');
-  console.log(chalk.blue(`📝 Logging to: ${logPath}`));
+if (logger.filePath) {
+  console.log(chalk.blue(`📝 Logging to: ${logger.filePath} (run ${logger.runId})`));
+}
+
+// Filled in as the run goes; recorded with its outcome when the process exits
+const run: RunRecord = {
+  ...newRunRecord(logger, cfg.targetDir, argv._[0] === "plan" ? "plan" : "scaffold"),
+  statsFile: logger.filePath && path.resolve(statsFile)
+};
+const registry = await registerRun(run, () => ({ config: new Redactor(cfg.logging?.redact).value(configSnapshot(cfg)) }));
+
+// The stats file is only created once something is written to it
+let statsLogger: Logger | undefined;
+function getStatsLogger() {
+  const { redact, perRun, rotation, retention } = cfg.logging ?? {};
+  statsLogger ??= new Logger({ ...STATS_LOG_CONFIG, redact, perRun, rotation, retention }, cfg.targetDir, undefined, logger.runId);
+  return statsLogger;
 }
 
 const pm = detectPM(cfg.packageManager);
@@ -316,7 +793,7 @@ if (!cfg.quiet) {
   }
 }
 
-const treeSource = await loadTreeSource(cfg);
+const { text: treeSource, sources: treeSources } = await loadTreeSource(cfg);
 if (!treeSource) {
   // eslint-disable-next-line no-console
   console.error(
@@ -327,20 +804,28 @@ if (!treeSource) {
   process.exit(1);
 }
 
+run.tree = {
+  file: cfg.treeFile && path.resolve(cfg.treeFile),
+  hash: hashText(treeSource),
+  copy: await registry.saveRunTree(run.id, new Redactor(cfg.logging?.redact).text(treeSource))
+};
+
+// Tree lines can use {{ variables }}, so they have to be known before parsing
+await settleTemplateVariables(collectTemplateManifests(cfg));
+
 // Show tree structure if enabled
 if (!cfg.quiet && argv["show-tree"]) {
   console.log(chalk.blue('\n📝 Tree Structure:'));
   console.log(chalk.dim('─'.repeat(40)));
-  console.log(treeSource.split('\n').map(line => '  ' + line).join('\n'));
+  console.log(interpolateTree(treeSource, cfg).split('\n').map(line => '  ' + line).join('\n'));
   console.log(chalk.dim('─'.repeat(40)));
 
   // Parse tree early to show statistics
-  const previewRoots = parseTree(treeSource, cfg);
+  const previewRoots = parseTree(treeSource, cfg, treeSources);
   const stats = analyzeTreeStructure(previewRoots);
 
   // Always log stats to JSON file
-  const statsLogger = new Logger(STATS_LOG_CONFIG, cfg.targetDir);
-  statsLogger.info('Project Statistics', {
+  getStatsLogger().info('Project Statistics', {
     metadata: {
       timestamp: new Date().toISOString(),
       targetDir: cfg.targetDir,
@@ -366,7 +851,7 @@ if (!cfg.quiet && argv["show-tree"]) {
   });
   
   console.log(chalk.dim('\n📊 Tree Statistics:'));
-  console.log(chalk.dim(`  📝 Detailed stats saved to: ${path.join(cfg.targetDir, STATS_LOG_CONFIG.file || 'forge-tree.stats.json')}`));
+  console.log(chalk.dim(`  📝 Detailed stats saved to: ${statsFile}`));
   
   // Basic counts
   console.log(chalk.blue('\n  📁 Structure:'));
@@ -447,15 +932,46 @@ if (!cfg.quiet) {
   }
 }
 
-const roots = parseTree(treeSource, cfg);
+const { roots, rewrites: pathRewrites, warnings: parseWarnings } = parseTreeWithReport(treeSource, cfg, treeSources);
+
+// Tree paths are relative to the target directory, not to where forge-tree was started
+const resolveUnderTarget = (n: TreeNode) => {
+  n.path = path.resolve(cfg.targetDir, n.path);
+  n.children.forEach(resolveUnderTarget);
+};
+roots.forEach(resolveUnderTarget);
 
 if (!cfg.quiet) {
   const totalNodes = countNodes(roots);
   console.log(chalk.dim(`  📊 Found ${totalNodes} nodes in tree`));
+  if (pathRewrites.length > 0) {
+    console.log(chalk.yellow(`  ↪ ${pathRewrites.length} path(s) rewritten by path rules:`));
+    pathRewrites.forEach(rewrite => console.log(chalk.dim(`    • ${describeRewrite(rewrite)}`)));
+  }
+  parseWarnings.forEach(w => {
+    const at = w.line ? `${w.file ? `${w.file}:${w.line}` : `Line ${w.line}`}: ` : "";
+    console.log(chalk.yellow(`  ⚠ ${at}${w.message}`));
+  });
   console.log(chalk.blue('\n📋 Creating base file plan...'));
 }
 
-const plan: PlanAction[] = planFromTree(roots, cfg);
+const syncDelta = cfg.sync ? diffTree(roots, cfg.targetDir, loadSyncState(cfg.targetDir)) : undefined;
+const plan: PlanAction[] = syncDelta ? planSync(syncDelta, cfg) : planFromTree(roots, cfg);
+
+// Provenance for plan files: tree nodes, repo defaults (dotfiles, turbo.json) or detectors
+const origins = new Map<PlanAction, PlanOrigin>();
+const nodePaths = new Set<string>();
+const collectPaths = (n: TreeNode) => {
+  nodePaths.add(n.path);
+  n.children.forEach(collectPaths);
+};
+roots.forEach(collectPaths);
+plan.forEach((a) => origins.set(a, a.type !== "exec" && nodePaths.has(a.path) ? { source: "tree", node: a.path } : { source: "defaults" }));
+
+if (!cfg.quiet && syncDelta) {
+  console.log(chalk.dim(`  🔄 Sync: ${syncDelta.added.length} new, ${syncDelta.unchanged} unchanged, ${syncDelta.removed.length} removed from the tree`));
+  syncDelta.conflicts.forEach(c => console.log(chalk.yellow(`  ⚠ ${c.path} exists but is not a ${c.expected}; left alone`)));
+}
 
 if (!cfg.quiet) {
   const { dirs, files } = countPlanItems(plan);
@@ -473,7 +989,11 @@ if (cfg.runDetectors) {
   if (!cfg.quiet) {
     console.log(chalk.dim(`  🔍 Found ${detectorList.length} available detectors`));
   }
-  const applicable = detectorList.filter((d) => roots.some((r) => walkMatch(r, d.match, cfg)));
+  // In sync mode detectors only see nodes that are new in this run
+  const isCandidate = (n: TreeNode) => !syncDelta || syncDelta.added.includes(n);
+  const applicable = detectorList.filter((d) =>
+    roots.some((r) => walkMatch(r, (n, c) => isCandidate(n) && d.match(n, c), cfg))
+  );
 
   if (!cfg.quiet && applicable.length > 0) {
     console.log(chalk.dim(`  ✨ ${applicable.length} detectors match your project structure`));
@@ -484,6 +1004,7 @@ if (cfg.runDetectors) {
   if (!cfg.quiet && chosenIds.length > 0) {
     console.log(chalk.dim(`  👉 Running ${chosenIds.length} selected detectors`));
   }
+  await settleTemplateVariables(collectTemplateManifests(cfg, chosenIds));
   
   const detectorManager = new DetectorManager(cfg);
 
@@ -528,13 +1049,14 @@ if (cfg.runDetectors) {
   }
   
   let generatedActions = 0;
-  for (const m of matches) {
+  for (const m of matches.filter((m) => isCandidate(m.node))) {
     const detector = detectorList.find((d) => d.id === m.detectorId)!;
     
     const success = await detectorManager.runDetector(detector, m.node);
     if (success) {
       const gen = await detector.generate(m.node, cfg);
       generatedActions += gen.actions.length;
+      gen.actions.forEach((a) => origins.set(a, { source: "detector", detectorId: m.detectorId, node: m.node.path }));
     plan.push(...gen.actions);
   }
 }
@@ -547,17 +1069,90 @@ if (cfg.runDetectors) {
   }
 }
 
+// Paths dropped from the tree are removed by plan steps, so they are journaled and checked like the rest
+if (syncDelta && syncDelta.removed.length > 0) {
+  const mode = cfg.removedMode && cfg.removedMode !== "ask"
+    ? cfg.removedMode
+    : cfg.dryRun ? "keep" : await askRemovedNodes(syncDelta.removed, cfg.yes);
+  if (mode === "keep") {
+    if (!cfg.quiet) {
+      console.log(chalk.dim(`  ↪ Kept ${syncDelta.removed.length} path(s) removed from the tree (use --removed delete|archive):`));
+      syncDelta.removed.forEach(p => console.log(chalk.dim(`    • ${p}`)));
+    }
+  } else {
+    plan.push(...planRemoved(syncDelta.removed, mode, cfg.targetDir));
+  }
+}
+
+let normalized: NormalizedPlan;
+try {
+  normalized = normalizePlan(plan, origins, cfg.onConflict);
+} catch (error) {
+  console.error(chalk.red("❌ " + (error instanceof Error ? error.message : String(error))));
+  console.error(chalk.dim("  Use --on-conflict tree|detector|merge to resolve these automatically"));
+  process.exit(1);
+}
+plan.splice(0, plan.length, ...normalized.actions);
+run.actions = countActions(plan);
+run.detectors = [...new Set(plan.flatMap(a => {
+  const origin = origins.get(a);
+  return origin?.source === "detector" ? [origin.detectorId] : [];
+}))];
+if (!cfg.quiet && normalized.duplicateDirs + normalized.duplicateWrites > 0) {
+  console.log(chalk.dim(`  🧹 Dropped ${normalized.duplicateDirs} repeated mkdir(s) and ${normalized.duplicateWrites} identical write(s)`));
+}
+if (!cfg.quiet && normalized.conflicts.length > 0) {
+  console.log(chalk.yellow(`  ⚠ ${normalized.conflicts.length} file(s) written by more than one source:`));
+  normalized.conflicts.forEach(c => console.log(chalk.dim(
+    `    • ${c.path}: ${[c.kept, ...c.others].map(describeOrigin).join(" vs ")} → ${c.resolution}`
+  )));
+}
+
+if (!cfg.allowOutside) {
+  try {
+    plan.forEach((a) => assertInsideTarget(a, cfg.targetDir));
+  } catch (error) {
+    console.error(chalk.red("❌ " + (error instanceof Error ? error.message : String(error))));
+    process.exit(1);
+  }
+}
+
+if (argv._[0] === "plan") {
+  const planPath = path.resolve(String(argv.out));
+  writePlanFile(planPath, createPlanFile({
+    cfg,
+    roots,
+    treeSource,
+    actions: plan,
+    originOf: (a) => origins.get(a) ?? { source: "defaults" },
+    planFile: planPath
+  }));
+  const { dirs, files } = countPlanItems(plan);
+  console.log(chalk.green(`📝 Wrote plan with ${plan.length} actions (${dirs} directories, ${files} files) to ${planPath}`));
+  console.log(chalk.dim(`  Review it, then run \`forge-tree apply ${path.relative(process.cwd(), planPath) || planPath}\``));
+  process.exit(0);
+}
+
 if (!cfg.quiet) console.log(chalk.blue(`📦 Ready to execute ${plan.length} actions...`));
 const ok = await confirmPlan(plan.length, cfg.yes);
 if (!ok) {
   if (!cfg.quiet) console.log(chalk.yellow('⏹ Operation cancelled by user'));
+  run.outcome = "cancelled";
   process.exit(0);
 }
 
 if (!cfg.quiet) console.log(chalk.blue('🚀 Executing actions...'));
-const logger = new Logger(cfg.logging, cfg.targetDir);
-await applyPlan(plan, cfg.dryRun, logger);
+const progress = createProgressDisplay();
+const { manifestFile } = await applyPlan(plan, cfg.dryRun, logger, {
+  ...cfg,
+  onProgress: cfg.quiet || cfg.dryRun ? undefined : progress.update
+}).finally(progress.clear);
 if (!cfg.quiet) console.log(chalk.green('✨ All actions completed successfully'));
+if (!cfg.quiet && manifestFile) {
+  console.log(chalk.dim(`  🧾 Run manifest: ${manifestFile} (undo with \`forge-tree rollback <manifest>\`)`));
+}
+
+if (cfg.sync && !cfg.dryRun) saveSyncState(cfg.targetDir, roots);
 
 // compute repoRoot the same way generators do
 const repoRoot =
@@ -580,8 +1175,7 @@ if (!cfg.dryRun) {
     displayGeneratedStructure(repoRoot, treeSource);
     
     // Log the final structure to stats file
-    const statsLogger = new Logger(STATS_LOG_CONFIG, cfg.targetDir);
-    statsLogger.info('Generated Structure', {
+    getStatsLogger().info('Generated Structure', {
       metadata: {
         timestamp: new Date().toISOString(),
         targetDir: repoRoot,
@@ -592,20 +1186,11 @@ if (!cfg.dryRun) {
     // Auto-open logs and stats if enabled
     if (argv["auto-open"] && !argv["no-viewer"]) {
       try {
-        const logFile = path.join(cfg.targetDir, cfg.logging?.file || 'forge-tree.log');
-        const statsFile = path.join(cfg.targetDir, STATS_LOG_CONFIG.file || 'forge-tree.stats.json');
-
-        // Initialize cache
-        const cache = new Cache();
-        await cache.load();
-        
-        // Update cache with new files
-        await cache.updateLogFile(logFile);
-        await cache.updateStatsFile(statsFile);
+        await Promise.all([logger.flush(), statsLogger?.flush()]);
 
         // Open viewer
         await openLogViewer({
-          logFile,
+          logFile: logger.filePath,
           statsFile,
           withLog: true,
           withStats: true,
@@ -615,7 +1200,9 @@ if (!cfg.dryRun) {
           browser: argv.browser,
           browserArgs: argv["browser-args"],
           newWindow: argv["new-window"],
-          incognito: argv.incognito
+          incognito: argv.incognito,
+          redact: cfg.logging?.redact,
+          runId: logger.runId
         });
 
         if (!cfg.quiet) {
@@ -628,13 +1215,16 @@ if (!cfg.dryRun) {
     } else if (!cfg.quiet) {
       // Show paths to the files
       console.log(chalk.blue('\n📊 Output files:'));
-      console.log(chalk.dim(`  📝 Log file: ${path.join(cfg.targetDir, cfg.logging?.file || 'forge-tree.log')}`));
-      console.log(chalk.dim(`  📊 Stats file: ${path.join(cfg.targetDir, STATS_LOG_CONFIG.file || 'forge-tree.stats.json')}`));
+      console.log(chalk.dim(`  📝 Log file: ${logger.filePath}`));
+      console.log(chalk.dim(`  📊 Stats file: ${statsFile}`));
       console.log(chalk.dim('\nTip: Use `forge-tree view --log --with-stats` to view these files in the browser.'));
     }
   }
 }
 
+logger.writeSummary();
+await Promise.all([endRunLogger(), statsLogger?.close()]);
+
 // Handle log viewer commands
 if (argv["read-log"] || argv["read-stats"]) {
   try {
@@ -651,6 +1241,60 @@ if (argv["read-log"] || argv["read-stats"]) {
   }
 }
 
+function newRunRecord(runLogger: Logger, targetDir: string, command: RunRecord["command"]): RunRecord {
+  return {
+    id: runLogger.runId,
+    command,
+    outcome: "running",
+    targetDir: path.resolve(targetDir),
+    cwd: process.cwd(),
+    startedAt: (runStartedAt(runLogger.runId) ?? new Date()).toISOString(),
+    logFile: runLogger.filePath && path.resolve(runLogger.filePath)
+  };
+}
+
+function formatDuration(ms?: number) {
+  if (ms === undefined) return "-";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function countActions(actions: PlanAction[]) {
+  const counts: Record<string, number> = {};
+  actions.forEach(a => counts[a.type] = (counts[a.type] ?? 0) + 1);
+  return counts;
+}
+
+// Adds the run to the registry now, and again with its outcome and `finish()`'s fields on exit
+async function registerRun(record: RunRecord, finish: () => Partial<RunRecord> = () => ({})): Promise<Cache> {
+  const registry = new Cache();
+  await registry.load();
+  await registry.updateRun(record);
+  process.once("exit", (code) => {
+    const finishedAt = new Date();
+    registry.updateRunSync({
+      ...record,
+      ...finish(),
+      outcome: record.outcome === "running" ? (code === 0 ? "succeeded" : "failed") : record.outcome,
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - Date.parse(record.startedAt)
+    });
+  });
+  return registry;
+}
+
+// Fills cfg.variables from --var, env, config and prompts; exits before anything is written if some are missing
+async function settleTemplateVariables(manifests: ReturnType<typeof collectTemplateManifests>) {
+  try {
+    cfg.variables = await resolveTemplateVariables(manifests, cfg, {
+      cliVars: parseVarFlags(argv.var as string[] | undefined),
+      yes: cfg.yes
+    });
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
 function walkMatch(n: TreeNode, match: (n: TreeNode, cfg: ForgeConfig) => boolean, cfg: ForgeConfig): boolean {
   if (match(n, cfg)) return true;
   return n.children.some((c) => walkMatch(c, match, cfg));
@@ -661,6 +1305,13 @@ function collectMatches(n: TreeNode, d: ReturnType<typeof getDetectors>[number],
   for (const c of n.children) collectMatches(c, d, out, cfg);
 }
 
+function describeRewrite(rewrite: PathRewrite): string {
+  const result = rewrite.to === null
+    ? "skipped"
+    : rewrite.to === rewrite.from ? "merged" : `→ ${rewrite.to}`;
+  return `${rewrite.from} ${result} (${rewrite.code}: ${rewrite.strategy})`;
+}
+
 function countNodes(nodes: TreeNode[]): number {
   let count = nodes.length;
   for (const node of nodes) {
@@ -673,7 +1324,7 @@ function countPlanItems(plan: PlanAction[]): { dirs: number; files: number } {
   const result = { dirs: 0, files: 0 };
   for (const action of plan) {
     if (action.type === 'mkdir') result.dirs++;
-    if (action.type === 'write') result.files++;
+    if (action.type === 'write' || action.type === 'copy') result.files++;
   }
   return result;
 }
@@ -0,0 +1,302 @@
+import { cpSync, existsSync, lstatSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import type { PlanAction } from "./types.js";
+import type { Logger } from "./logger.js";
+
+export const MANIFEST_DIR = path.join(".forge-tree", "manifests");
+
+export type JournalEntry =
+  | { type: "mkdir"; path: string }
+  | { type: "create"; path: string; hash: string }
+  | { type: "overwrite"; path: string; hash: string; backup: string }
+  | { type: "exec"; cwd: string; cmd: string; args: string[] }
+  | { type: "chmod"; path: string; previousMode: number }
+  | { type: "symlink"; path: string; target: string }
+  | { type: "remove"; path: string; backup: string };  // A file, symlink or whole directory
+
+export type RunManifest = {
+  version: 1;
+  targetDir: string;
+  startedAt: string;
+  finishedAt?: string;
+  status: "running" | "completed" | "failed" | "rolled-back";
+  error?: string;
+  entries: JournalEntry[];
+};
+
+export type RollbackResult = {
+  undone: string[];
+  kept: { path: string; reason: string }[];
+};
+
+// State captured before a step runs, compared against the filesystem afterwards
+type PendingStep = {
+  step: PlanAction;
+  missingDirs: string[];
+  file?: string;
+  previous?: Buffer;
+  mode?: number;      // chmod: mode before the step
+  existed?: boolean;  // symlink/remove: whether the path existed before the step
+  backup?: string;    // remove: copy of the path taken before the step
+};
+
+function hashContent(content: Buffer) {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function readIfExists(p: string): Buffer | undefined {
+  try {
+    return readFileSync(p);
+  } catch {
+    return undefined;
+  }
+}
+
+// Also true for dangling symlinks
+function pathExists(p: string) {
+  try {
+    lstatSync(p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Directories between `dir` and its nearest existing ancestor, outermost first
+function missingDirsFor(dir: string): string[] {
+  const missing: string[] = [];
+  let current = path.resolve(dir);
+  while (!existsSync(current)) {
+    missing.unshift(current);
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+  return missing;
+}
+
+/**
+ * Records the filesystem changes made by applyPlan into a manifest that is
+ * rewritten after every step, so a crash still leaves a usable record.
+ * Overwritten and removed paths are copied byte for byte into `<manifest>.files/`.
+ */
+export class Journal {
+  readonly file: string;
+  readonly backupDir: string;
+  private manifest: RunManifest;
+  private createdDirs = new Set<string>();  // Concurrent steps can share a missing parent
+  private backups = 0;
+
+  constructor(targetDir: string, file?: string) {
+    const startedAt = new Date().toISOString();
+    this.file = file ?? path.join(targetDir, MANIFEST_DIR, `${startedAt.replace(/[:.]/g, "-")}.json`);
+    this.backupDir = this.file.replace(/\.json$/, "") + ".files";
+    this.manifest = { version: 1, targetDir, startedAt, status: "running", entries: [] };
+    this.save();
+  }
+
+  get entries(): readonly JournalEntry[] {
+    return this.manifest.entries;
+  }
+
+  toManifest(): RunManifest {
+    return { ...this.manifest, entries: [...this.manifest.entries] };
+  }
+
+  begin(step: PlanAction): PendingStep {
+    if (step.type === "mkdir") {
+      return { step, missingDirs: missingDirsFor(step.path) };
+    }
+    if (step.type === "write" || step.type === "ensurePkg" || step.type === "copy" || step.type === "append" || step.type === "patch") {
+      const file = path.resolve(step.path);
+      return {
+        step,
+        missingDirs: missingDirsFor(path.dirname(file)),
+        file,
+        previous: readIfExists(file)
+      };
+    }
+    if (step.type === "chmod") {
+      return { step, missingDirs: [], mode: existsSync(step.path) ? statSync(step.path).mode & 0o7777 : undefined };
+    }
+    if (step.type === "symlink") {
+      return { step, missingDirs: missingDirsFor(path.dirname(path.resolve(step.path))), existed: pathExists(step.path) };
+    }
+    if (step.type === "remove") {
+      const existed = pathExists(step.path);
+      const backup = existed ? this.nextBackup(step.path) : undefined;
+      if (backup) cpSync(step.path, backup, { recursive: true, verbatimSymlinks: true });
+      return { step, missingDirs: [], existed, backup };
+    }
+    return { step, missingDirs: [] };
+  }
+
+  // Called whether or not the step succeeded: a failed step may still have left changes behind
+  commit(pending: PendingStep) {
+    const { step } = pending;
+    for (const dir of pending.missingDirs) {
+      if (!existsSync(dir) || this.createdDirs.has(dir)) continue;
+      this.createdDirs.add(dir);
+      this.manifest.entries.push({ type: "mkdir", path: dir });
+    }
+    if (pending.file) {
+      const current = readIfExists(pending.file);
+      if (current !== undefined && pending.previous === undefined) {
+        this.manifest.entries.push({ type: "create", path: pending.file, hash: hashContent(current) });
+      } else if (current !== undefined && !current.equals(pending.previous!)) {
+        const backup = this.nextBackup(pending.file);
+        writeFileSync(backup, pending.previous!);
+        this.manifest.entries.push({ type: "overwrite", path: pending.file, hash: hashContent(current), backup });
+      }
+    }
+    if (step.type === "exec") {
+      this.manifest.entries.push({ type: "exec", cwd: step.cwd, cmd: step.cmd, args: step.args });
+    }
+    if (step.type === "chmod" && pending.mode !== undefined && existsSync(step.path)) {
+      if ((statSync(step.path).mode & 0o7777) !== pending.mode) {
+        this.manifest.entries.push({ type: "chmod", path: path.resolve(step.path), previousMode: pending.mode });
+      }
+    }
+    if (step.type === "symlink" && !pending.existed && pathExists(step.path)) {
+      this.manifest.entries.push({ type: "symlink", path: path.resolve(step.path), target: step.target });
+    }
+    if (step.type === "remove" && pending.backup) {
+      if (pathExists(step.path)) {
+        rmSync(pending.backup, { recursive: true, force: true });
+      } else {
+        this.manifest.entries.push({ type: "remove", path: path.resolve(step.path), backup: pending.backup });
+      }
+    }
+    this.save();
+  }
+
+  finish(status: RunManifest["status"], error?: unknown) {
+    this.manifest.status = status;
+    this.manifest.finishedAt = new Date().toISOString();
+    if (error !== undefined) {
+      this.manifest.error = error instanceof Error ? error.message : String(error);
+    }
+    this.save();
+  }
+
+  private nextBackup(p: string) {
+    mkdirSync(this.backupDir, { recursive: true });
+    return path.join(this.backupDir, `${++this.backups}-${path.basename(p)}`);
+  }
+
+  private save() {
+    mkdirSync(path.dirname(this.file), { recursive: true });
+    writeFileSync(this.file, JSON.stringify(this.manifest, null, 2) + "\n");
+  }
+}
+
+export function loadManifest(file: string): RunManifest {
+  let manifest: RunManifest;
+  try {
+    manifest = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read manifest ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (manifest?.version !== 1 || !Array.isArray(manifest.entries)) {
+    throw new Error(`${file} is not a forge-tree run manifest`);
+  }
+  return manifest;
+}
+
+/**
+ * Undoes the entries of a manifest in reverse order. Files changed since the run
+ * and non-empty directories are kept unless `force` is set; exec steps can't be
+ * undone, but whatever they wrote inside directories created by the run goes with them.
+ */
+export async function rollbackManifest(
+  manifest: RunManifest,
+  options: { force?: boolean; logger?: Logger } = {}
+): Promise<RollbackResult> {
+  const { force = false, logger } = options;
+  const result: RollbackResult = { undone: [], kept: [] };
+  const keep = (p: string, reason: string) => {
+    result.kept.push({ path: p, reason });
+    logger?.warn('Rollback Skipped', { target: p, metadata: { operation: 'rollback', details: reason } });
+  };
+  const undone = (p: string, operation: string) => {
+    result.undone.push(p);
+    logger?.info('Rolled Back', { target: p, metadata: { operation } });
+  };
+
+  for (const entry of [...manifest.entries].reverse()) {
+    if (entry.type === "exec") {
+      logger?.debug('Rollback Skipped', {
+        command: entry.cmd,
+        args: entry.args,
+        metadata: { operation: 'rollback', cwd: entry.cwd, details: 'Commands cannot be undone' }
+      });
+      continue;
+    }
+
+    if (entry.type === "mkdir") {
+      if (!existsSync(entry.path)) continue;
+      try {
+        await fs.rmdir(entry.path);
+        undone(entry.path, 'rmdir');
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code !== "ENOTEMPTY" && code !== "EEXIST") throw error;
+        if (!force) {
+          keep(entry.path, 'Directory is not empty');
+          continue;
+        }
+        await fs.rm(entry.path, { recursive: true, force: true });
+        undone(entry.path, 'rmdir');
+      }
+      continue;
+    }
+
+    if (entry.type === "chmod") {
+      if (!existsSync(entry.path)) continue;
+      await fs.chmod(entry.path, entry.previousMode);
+      undone(entry.path, 'chmod');
+      continue;
+    }
+
+    if (entry.type === "symlink") {
+      if (!pathExists(entry.path) || !lstatSync(entry.path).isSymbolicLink()) continue;
+      await fs.unlink(entry.path);
+      undone(entry.path, 'unlink');
+      continue;
+    }
+
+    if (entry.type === "remove") {
+      if (pathExists(entry.path)) continue;
+      if (!pathExists(entry.backup)) {
+        keep(entry.path, 'Backup is missing');
+        continue;
+      }
+      await fs.mkdir(path.dirname(entry.path), { recursive: true });
+      await fs.cp(entry.backup, entry.path, { recursive: true, verbatimSymlinks: true });
+      undone(entry.path, 'restore');
+      continue;
+    }
+
+    const current = readIfExists(entry.path);
+    if (current === undefined) {
+      if (entry.type === "create") continue;
+    } else if (!force && hashContent(current) !== entry.hash) {
+      keep(entry.path, 'File changed since the run');
+      continue;
+    }
+
+    if (entry.type === "create") {
+      await fs.unlink(entry.path);
+      undone(entry.path, 'delete');
+    } else if (!pathExists(entry.backup)) {
+      keep(entry.path, 'Backup is missing');
+    } else {
+      await fs.mkdir(path.dirname(entry.path), { recursive: true });
+      await fs.copyFile(entry.backup, entry.path);
+      undone(entry.path, 'restore');
+    }
+  }
+  return result;
+}
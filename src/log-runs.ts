@@ -0,0 +1,95 @@
+import { existsSync, readdirSync, readFileSync, renameSync, rmSync, statSync } from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import type { LogRetentionConfig, LogRotationConfig } from "./types.js";
+
+export const RUNS_DIR = path.join(".forge-tree", "runs");
+
+const DEFAULT_MAX_SIZE = 5 * 1024 * 1024;
+const DEFAULT_KEEP = 5;
+const DEFAULT_MAX_RUNS = 20;
+const DAY = 24 * 60 * 60 * 1000;
+
+// `2024-05-01T10-00-00-000Z-3f9a1c`: sorts by start time, unique across parallel runs
+const RUN_ID = /^(\d{4}-\d\d-\d\dT\d\d)-(\d\d)-(\d\d)-(\d{3})Z-[0-9a-f]+$/;
+
+export function createRunId(date = new Date()) {
+  return `${date.toISOString().replace(/[:.]/g, "-")}-${randomBytes(3).toString("hex")}`;
+}
+
+export function runStartedAt(runId: string): Date | undefined {
+  const match = RUN_ID.exec(runId);
+  return match ? new Date(`${match[1]}:${match[2]}:${match[3]}.${match[4]}Z`) : undefined;
+}
+
+/**
+ * Where a log or stats file named `file` (relative to targetDir) goes:
+ * shared by every run, or inside the run's own directory.
+ */
+export function runFilePath(targetDir: string, file: string, runId: string, perRun = false) {
+  return perRun
+    ? path.join(targetDir, RUNS_DIR, runId, path.basename(file))
+    : path.join(targetDir, file);
+}
+
+// Timestamp of the first entry, which both the text and JSON formats start with
+function oldestEntry(file: string): Date | undefined {
+  const head = readFileSync(file, "utf8").slice(0, 512);
+  const match = /\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d(?:\.\d+)?Z/.exec(head);
+  return match ? new Date(match[0]) : undefined;
+}
+
+/**
+ * Moves a shared log file aside as `<file>.1` (shifting older ones up to
+ * `keep`) once it is too big or too old. Returns whether it rotated.
+ */
+export function rotateLogFile(file: string, rotation: LogRotationConfig = {}, now = new Date()) {
+  if (!existsSync(file)) return false;
+  const maxSize = rotation.maxSize ?? DEFAULT_MAX_SIZE;
+  const keep = rotation.keep ?? DEFAULT_KEEP;
+
+  const tooBig = statSync(file).size >= maxSize;
+  const oldest = rotation.maxAgeDays !== undefined ? oldestEntry(file) : undefined;
+  const tooOld = !!oldest && now.getTime() - oldest.getTime() > rotation.maxAgeDays! * DAY;
+  if (!tooBig && !tooOld) return false;
+
+  if (keep < 1) {
+    rmSync(file);
+    return true;
+  }
+  rmSync(`${file}.${keep}`, { force: true });
+  for (let i = keep - 1; i >= 1; i--) {
+    if (existsSync(`${file}.${i}`)) renameSync(`${file}.${i}`, `${file}.${i + 1}`);
+  }
+  renameSync(file, `${file}.1`);
+  return true;
+}
+
+/** Run IDs with a directory under targetDir, oldest first. */
+export function listRunIds(targetDir: string): string[] {
+  const dir = path.join(targetDir, RUNS_DIR);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && RUN_ID.test(entry.name))
+    .map(entry => entry.name)
+    .sort();
+}
+
+/**
+ * Deletes run directories beyond `maxRuns` (newest are kept) or older than
+ * `maxAgeDays`. `current` is never deleted. Returns the IDs removed.
+ */
+export function pruneRuns(targetDir: string, retention: LogRetentionConfig = {}, current?: string, now = new Date()) {
+  const maxRuns = retention.maxRuns ?? DEFAULT_MAX_RUNS;
+  const ids = listRunIds(targetDir).filter(id => id !== current);
+  const slots = Math.max(0, maxRuns - (current ? 1 : 0));
+
+  const removed = ids.filter((id, i) => {
+    if (i < ids.length - slots) return true;
+    if (retention.maxAgeDays === undefined) return false;
+    const startedAt = runStartedAt(id);
+    return !!startedAt && now.getTime() - startedAt.getTime() > retention.maxAgeDays * DAY;
+  });
+  removed.forEach(id => rmSync(path.join(targetDir, RUNS_DIR, id), { recursive: true, force: true }));
+  return removed;
+}
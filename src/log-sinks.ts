@@ -0,0 +1,98 @@
+import fs from "fs";
+import path from "path";
+import type { LogEntry } from "./types.js";
+
+/** Where log entries end up. `formatted` is the entry rendered in the logger's format. */
+export interface LogSink {
+  write(entry: LogEntry, formatted: string): void;
+  flush?(): Promise<void>;
+  close?(): Promise<void>;
+}
+
+export type LogSinkLike = LogSink | ((entry: LogEntry, formatted: string) => void);
+
+export function toSink(sink: LogSinkLike): LogSink {
+  return typeof sink === "function" ? { write: sink } : sink;
+}
+
+export class ConsoleSink implements LogSink {
+  write(entry: LogEntry, formatted: string) {
+    const method = entry.level === "error" ? "error" : entry.level === "warn" ? "warn" : "log";
+    console[method](formatted);
+  }
+}
+
+export class MemorySink implements LogSink {
+  readonly entries: LogEntry[] = [];
+
+  write(entry: LogEntry) {
+    this.entries.push(entry);
+  }
+}
+
+// Lines not yet handed to the OS are written synchronously if the process exits first
+const openFileSinks = new Set<FileSink>();
+let exitHookInstalled = false;
+
+/**
+ * Appends lines to a file without blocking: writes are batched and flushed in
+ * order on the next tick. `truncate` empties the file when the sink is created.
+ */
+export class FileSink implements LogSink {
+  private buffer: string[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private scheduled = false;
+
+  constructor(readonly file: string, options: { truncate?: boolean } = {}) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    if (options.truncate) fs.writeFileSync(file, "");
+    openFileSinks.add(this);
+    if (!exitHookInstalled) {
+      exitHookInstalled = true;
+      process.on("exit", () => openFileSinks.forEach(sink => sink.flushSync()));
+    }
+  }
+
+  protected line(_entry: LogEntry, formatted: string) {
+    return formatted;
+  }
+
+  write(entry: LogEntry, formatted: string) {
+    this.buffer.push(this.line(entry, formatted) + "\n");
+    if (this.scheduled) return;
+    this.scheduled = true;
+    setImmediate(() => {
+      this.scheduled = false;
+      void this.flush();
+    });
+  }
+
+  flush(): Promise<void> {
+    if (this.buffer.length > 0) {
+      const chunk = this.buffer.join("");
+      this.buffer = [];
+      this.writing = this.writing
+        .then(() => fs.promises.appendFile(this.file, chunk))
+        .catch((error) => console.error(`Could not write log file ${this.file}: ${error.message}`));
+    }
+    return this.writing;
+  }
+
+  flushSync() {
+    if (this.buffer.length === 0) return;
+    fs.appendFileSync(this.file, this.buffer.join(""));
+    this.buffer = [];
+  }
+
+  async close() {
+    await this.flush();
+    openFileSinks.delete(this);
+  }
+}
+
+/** One JSON object per line, whatever format the logger itself uses. */
+export class NdjsonSink extends FileSink {
+  protected line(entry: LogEntry) {
+    return JSON.stringify(entry);
+  }
+}
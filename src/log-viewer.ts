@@ -1,8 +1,9 @@
 import fs from "fs/promises";
 import path from "path";
-import type { LogEntry, LogConfig, ViewerConfig } from "./types.js";
+import type { LogEntry, LogConfig, RedactionConfig, ViewerConfig } from "./types.js";
 import open from "open";
 import { Cache } from "./cache.js";
+import { Redactor } from "./redact.js";
 
 
 export async function createLogViewer(
@@ -52,16 +53,17 @@ export async function createLogViewer(
   // Create the viewer HTML
   const viewerPath = path.join(tempDir, "viewer.html");
   
-  // Update template with file data
+  // Update template with file data; logs written before redaction existed are cleaned here too
+  const redactor = new Redactor(viewerConfig?.redact);
   template = template.replace(
     'let logData = null;',
-    `let logData = ${JSON.stringify(logContent)};`
+    `let logData = ${JSON.stringify(redactor.text(logContent))};`
   );
 
   if (statsContent) {
     template = template.replace(
       'let statsData = null;',
-      `let statsData = ${JSON.stringify(statsContent)};`
+      `let statsData = ${JSON.stringify(redactor.text(statsContent))};`
     );
   }
 
@@ -212,6 +214,12 @@ export function calculateStats(entries: LogEntry[]) {
   };
 }
 
+// Each entry is one line carrying its run ID, in both the text and JSON formats
+function onlyRun(content: string, runId?: string) {
+  if (!runId) return content;
+  return content.split(/\r?\n/).filter(line => line.includes(runId)).join("\n");
+}
+
 export async function openLogViewer(options: {
   logFile?: string;
   statsFile?: string;
@@ -224,6 +232,8 @@ export async function openLogViewer(options: {
   browserArgs?: string;
   newWindow?: boolean;
   incognito?: boolean;
+  redact?: RedactionConfig;
+  runId?: string;  // Only show this run's entries from files shared by several runs
 }): Promise<void> {
   const {
     logFile,
@@ -262,10 +272,10 @@ export async function openLogViewer(options: {
     }
 
     // Read file contents
-    const logContent = await fs.readFile(resolvedLogPath, 'utf-8');
+    const logContent = onlyRun(await fs.readFile(resolvedLogPath, 'utf-8'), options.runId);
     let statsContent: string | undefined;
     if (resolvedStatsPath) {
-      statsContent = await fs.readFile(resolvedStatsPath, 'utf-8');
+      statsContent = onlyRun(await fs.readFile(resolvedStatsPath, 'utf-8'), options.runId);
     }
 
     // Create viewer
@@ -277,7 +287,8 @@ export async function openLogViewer(options: {
         browser: options.browser,
         browserArgs: options.browserArgs,
         newWindow: options.newWindow,
-        incognito: options.incognito
+        incognito: options.incognito,
+        redact: options.redact
       }
     );
   } catch (error) {
@@ -1,7 +1,13 @@
-import fs from 'fs';
 import path from 'path';
 import type { LogConfig, LogEntry, LogLevel, ForgeConfig } from './types.js';
 import { DEFAULT_LOG_CONFIG } from './types.js';
+import { Redactor } from './redact.js';
+import { ConsoleSink, FileSink, NdjsonSink, toSink } from './log-sinks.js';
+import { createRunId, pruneRuns, rotateLogFile, runFilePath } from './log-runs.js';
+import type { LogSink, LogSinkLike } from './log-sinks.js';
+
+// Operations whose log entries carry the running fs stats
+const FS_OPERATIONS = ['mkdir', 'write', 'modify', 'copy', 'symlink', 'chmod', 'append', 'patch', 'merge', 'remove'];
 
 export class Logger {
     private config: LogConfig;
@@ -9,6 +15,9 @@ export class Logger {
     private startTime: number;
     private entries: LogEntry[] = [];
     private timers: Map<string, number> = new Map();
+    private redactor: Redactor;
+    private sinks: LogSink[];
+    readonly runId: string;
     private metrics: {
         totalDuration: number;
         operationCounts: Record<string, number>;
@@ -26,6 +35,13 @@ export class Logger {
                 modified: number;
                 skipped: number;
                 failed: number;
+                removed: number;
+            };
+            links: {
+                created: number;
+            };
+            permissions: {
+                changed: number;
             };
             initializers: {
                 total: number;
@@ -50,7 +66,14 @@ export class Logger {
                 created: 0,
                 modified: 0,
                 skipped: 0,
-                failed: 0
+                failed: 0,
+                removed: 0
+            },
+            links: {
+                created: 0
+            },
+            permissions: {
+                changed: 0
             },
             initializers: {
                 total: 0,
@@ -61,37 +84,75 @@ export class Logger {
         }
     };
 
-    constructor(config: Partial<LogConfig> | undefined, targetDir: string) {
+    // Without explicit sinks, entries go to the console and the configured file(s).
+    // Loggers that write to the same run (e.g. log and stats) share its runId.
+    constructor(config: Partial<LogConfig> | undefined, targetDir: string, sinks?: LogSinkLike[], runId = createRunId()) {
         this.config = {
             ...DEFAULT_LOG_CONFIG,
             ...config
         };
+        this.runId = runId;
         
-        this.logFile = this.config.file 
-            ? path.join(targetDir, this.config.file)
-            : path.join(targetDir, 'forge-tree.log');
+        this.logFile = runFilePath(targetDir, this.config.file || 'forge-tree.log', runId, this.config.perRun);
         
         this.startTime = Date.now();
+        this.redactor = new Redactor(this.config.redact);
         
-        // Create log directory if it doesn't exist
-        const logDir = path.dirname(this.logFile);
-        if (!fs.existsSync(logDir)) {
-            fs.mkdirSync(logDir, { recursive: true });
+        if (sinks) {
+            this.sinks = sinks.map(toSink);
+            return;
+        }
+
+        this.sinks = [];
+        if (this.config.console) {
+            this.sinks.push(new ConsoleSink());
+        }
+
+        if (this.config.enabled && this.config.perRun) {
+            pruneRuns(targetDir, this.config.retention, runId);
         }
 
-        // Initialize log file with header
+        // Start the run with a header; a shared file keeps earlier runs until it is rotated
         if (this.config.enabled && this.config.file) {
-            const header = this.formatEntry({
+            if (!this.config.perRun) rotateLogFile(this.logFile, this.config.rotation);
+            const header: LogEntry = this.redactor.value({
                 timestamp: new Date().toISOString(),
-                level: 'info',
+                level: 'info' as const,
                 action: 'Session Started',
+                runId,
                 metadata: {
                     config: this.config as unknown as ForgeConfig,
                     targetDir
                 }
             });
-            fs.writeFileSync(this.logFile, header + '\n');
+            const fileSink = new FileSink(this.logFile);
+            fileSink.write(header, this.formatEntry(header));
+            this.sinks.push(fileSink);
         }
+
+        if (this.config.enabled && this.config.ndjson) {
+            const ndjsonFile = runFilePath(targetDir, this.config.ndjson, runId, this.config.perRun);
+            if (!this.config.perRun) rotateLogFile(ndjsonFile, this.config.rotation);
+            this.sinks.push(new NdjsonSink(ndjsonFile));
+        }
+    }
+
+    // The log file this run writes to, if any
+    get filePath(): string | undefined {
+        return this.config.enabled && this.config.file ? this.logFile : undefined;
+    }
+
+    addSink(sink: LogSinkLike) {
+        this.sinks.push(toSink(sink));
+    }
+
+    // Wait for buffered file writes to reach the disk
+    async flush() {
+        await Promise.all(this.sinks.map(sink => sink.flush?.()));
+    }
+
+    async close() {
+        await Promise.all(this.sinks.map(sink => sink.close?.()));
     }
 
     private shouldLog(level: LogLevel): boolean {
@@ -149,6 +210,9 @@ export class Logger {
         }
 
         parts.push(`[${entry.level.toUpperCase()}]`);
+        if (entry.runId) {
+            parts.push(`[run ${entry.runId}]`);
+        }
         parts.push(entry.action);
 
         if (entry.target) {
@@ -225,31 +289,24 @@ export class Logger {
         }
 
         // Add operation stats if it's a file system operation
-        if (entry.metadata.operation === 'mkdir' || entry.metadata.operation === 'write' || entry.metadata.operation === 'modify') {
+        if (FS_OPERATIONS.includes(entry.metadata.operation as string)) {
             entry.metadata.stats = {
                 directories: this.metrics.fsOperations.directories,
                 files: this.metrics.fsOperations.files,
+                links: this.metrics.fsOperations.links,
+                permissions: this.metrics.fsOperations.permissions,
                 initializers: this.metrics.fsOperations.initializers
             };
         }
 
-        const formatted = this.formatEntry(entry);
+        // Memory and sinks only ever see the redacted copy
+        const safe = this.redactor.value(entry);
+        const formatted = this.formatEntry(safe);
         
         // Store in memory
-        this.entries.push(entry);
-
-        // Write to console if enabled
-        if (this.config.console) {
-            const consoleMethod = entry.level === 'error' ? 'error' 
-                : entry.level === 'warn' ? 'warn' 
-                : 'log';
-            console[consoleMethod](formatted);
-        }
+        this.entries.push(safe);
 
-        // Write to file if enabled
-        if (this.config.enabled && this.config.file) {
-            fs.appendFileSync(this.logFile, formatted + '\n');
-        }
+        this.sinks.forEach(sink => sink.write(safe, formatted));
     }
 
     log(level: LogLevel, action: string, options: Partial<LogEntry> = {}) {
@@ -259,6 +316,7 @@ export class Logger {
             timestamp: new Date().toISOString(),
             level,
             action,
+            runId: this.runId,
             ...options
         };
 
@@ -387,6 +445,89 @@ export class Logger {
         });
     }
 
+    logFileCopied(from: string, path: string) {
+        this.metrics.fsOperations.files.created++;
+        this.info('File Copied', {
+            target: path,
+            metadata: {
+                operation: 'copy',
+                from
+            }
+        });
+    }
+
+    logFileAppended(path: string) {
+        this.metrics.fsOperations.files.modified++;
+        this.info('File Appended', {
+            target: path,
+            metadata: {
+                operation: 'append'
+            }
+        });
+    }
+
+    logFilePatched(path: string, keys: string[]) {
+        this.metrics.fsOperations.files.modified++;
+        this.info('File Patched', {
+            target: path,
+            metadata: {
+                operation: 'patch',
+                keys
+            }
+        });
+    }
+
+    logFileMerged(path: string, strategy: string, added: string[], conflicts: string[]) {
+        this.metrics.fsOperations.files.modified++;
+        this.info('File Merged', {
+            target: path,
+            metadata: {
+                operation: 'merge',
+                strategy,
+                added,
+                conflicts
+            }
+        });
+        if (conflicts.length > 0) {
+            this.warn('Merge Conflicts', {
+                target: path,
+                metadata: { operation: 'merge', strategy, conflicts }
+            });
+        }
+    }
+
+    logPathRemoved(path: string) {
+        this.metrics.fsOperations.files.removed++;
+        this.info('Path Removed', {
+            target: path,
+            metadata: {
+                operation: 'remove'
+            }
+        });
+    }
+
+    logSymlinkCreated(path: string, target: string) {
+        this.metrics.fsOperations.links.created++;
+        this.info('Symlink Created', {
+            target: path,
+            result: target,
+            metadata: {
+                operation: 'symlink'
+            }
+        });
+    }
+
+    logModeChanged(path: string, mode: number) {
+        this.metrics.fsOperations.permissions.changed++;
+        this.info('Mode Changed', {
+            target: path,
+            metadata: {
+                operation: 'chmod',
+                mode: mode.toString(8)
+            }
+        });
+    }
+
     // Initializer logging
     logInitializerStarted(id: string, path: string) {
         this.metrics.fsOperations.initializers.total++;
@@ -581,12 +722,15 @@ export class Logger {
                 total: metrics.fsOperations.files.created + 
                        metrics.fsOperations.files.modified + 
                        metrics.fsOperations.files.skipped + 
-                       metrics.fsOperations.files.failed,
+                       metrics.fsOperations.files.failed +
+                       metrics.fsOperations.files.removed,
                 successRate: ((metrics.fsOperations.files.created + metrics.fsOperations.files.modified) / 
                     (metrics.fsOperations.files.created + 
                      metrics.fsOperations.files.modified + 
                      metrics.fsOperations.files.failed) * 100).toFixed(2) + '%'
             },
+            links: metrics.fsOperations.links,
+            permissions: metrics.fsOperations.permissions,
             initializers: {
                 ...metrics.fsOperations.initializers,
                 successRate: (metrics.fsOperations.initializers.successful / 
@@ -681,3 +825,30 @@ export class Logger {
         }
     }
 }
+
+// The logger of the run in progress; everything that logs during the run shares it
+let runLogger: Logger | undefined;
+// Loggers for code called outside a run (tests, library use), one per config object
+const configLoggers = new WeakMap<ForgeConfig, Logger>();
+
+export function startRunLogger(config: Partial<LogConfig> | undefined, targetDir: string, sinks?: LogSinkLike[]): Logger {
+    runLogger = new Logger(config, targetDir, sinks);
+    return runLogger;
+}
+
+export function getRunLogger(cfg: ForgeConfig): Logger {
+    if (runLogger) return runLogger;
+    let logger = configLoggers.get(cfg);
+    if (!logger) {
+        logger = new Logger(cfg.logging, cfg.targetDir);
+        configLoggers.set(cfg, logger);
+    }
+    return logger;
+}
+
+// Flushes and detaches the run logger; later calls to getRunLogger get a fresh one
+export async function endRunLogger() {
+    const logger = runLogger;
+    runLogger = undefined;
+    await logger?.close();
+}
@@ -0,0 +1,205 @@
+import YAML from "yaml";
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON merge patch (RFC 7396): objects merge recursively, null deletes a key,
+ * anything else (arrays included) replaces the target value.
+ */
+export function mergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) return patch;
+  const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key];
+    else result[key] = mergePatch(result[key], value);
+  }
+  return result;
+}
+
+export function patchFormat(file: string, format?: "json" | "yaml") {
+  return format ?? (/\.ya?ml$/i.test(file) ? "yaml" : "json");
+}
+
+// Applies the patch through the YAML document so comments and key order survive
+function patchYamlDocument(doc: YAML.Document, patch: Record<string, unknown>, prefix: string[] = []) {
+  for (const [key, value] of Object.entries(patch)) {
+    const at = [...prefix, key];
+    if (value === null) doc.deleteIn(at);
+    else if (isPlainObject(value) && YAML.isMap(doc.getIn(at, true))) patchYamlDocument(doc, value, at);
+    else doc.setIn(at, value);
+  }
+}
+
+/**
+ * Applies a merge patch to JSON or YAML source text. An empty or missing
+ * source starts from an empty object.
+ */
+export function applyMergePatch(source: string | undefined, patch: Record<string, unknown>, format: "json" | "yaml") {
+  if (format === "yaml") {
+    const doc = YAML.parseDocument<YAML.Node>(source ?? "");
+    if (doc.errors.length > 0) throw new Error(`Invalid YAML: ${doc.errors[0].message}`);
+    if (!YAML.isMap(doc.contents)) doc.contents = doc.createNode({});
+    patchYamlDocument(doc, patch);
+    return doc.toString();
+  }
+
+  const current = source?.trim() ? JSON.parse(source) : {};
+  const indent = source?.match(/^[ \t]+(?=")/m)?.[0] ?? "  ";
+  return JSON.stringify(mergePatch(current, patch), null, indent) + "\n";
+}
+
+export type MergeKind = "gitignore" | "package.json" | "editorconfig" | "keys";
+
+export type MergeResult = {
+  content: string;
+  added: string[];      // Entries taken from the generated file
+  conflicts: string[];  // Entries where the existing value was kept over a different one
+};
+
+export type PreserveOptions = {
+  preserveGitIgnore?: boolean;
+  preservePackageJson?: boolean;
+  preserveConfig?: boolean;
+};
+
+const DEPENDENCY_SECTIONS = ["scripts", "dependencies", "devDependencies", "peerDependencies", "optionalDependencies"];
+
+/** Which semantic merge, if any, applies when a generated file meets an existing one. */
+export function mergeKindFor(file: string, options: PreserveOptions): MergeKind | undefined {
+  const name = file.split(/[\\/]/).pop() ?? file;
+  if (name === ".gitignore") return options.preserveGitIgnore ? "gitignore" : undefined;
+  if (name === "package.json") return options.preservePackageJson ? "package.json" : undefined;
+  if (!options.preserveConfig) return undefined;
+  if (name === ".editorconfig") return "editorconfig";
+  if (/^tsconfig(\..+)?\.json$/.test(name) || /^\.prettierrc(\.json|\.ya?ml)?$/.test(name)) return "keys";
+  return undefined;
+}
+
+function lines(text: string) {
+  return text.replace(/\r\n/g, "\n").split("\n");
+}
+
+// Union of ignore patterns: ours keep their order, new ones are appended once
+function mergeGitignore(existing: string, incoming: string): MergeResult {
+  const isEntry = (line: string) => line.trim() !== "" && !line.trim().startsWith("#");
+  const seen = new Set(lines(existing).filter(isEntry).map(line => line.trim()));
+  const added: string[] = [];
+  for (const line of lines(incoming).filter(isEntry)) {
+    if (seen.has(line.trim())) continue;
+    seen.add(line.trim());
+    added.push(line.trim());
+  }
+  const content = added.length === 0 ? existing : existing.replace(/\n*$/, existing ? "\n" : "") + added.join("\n") + "\n";
+  return { content, added, conflicts: [] };
+}
+
+// Keys missing from ours, as a merge patch; differing values are left alone
+function missingKeys(
+  ours: Record<string, unknown>,
+  theirs: Record<string, unknown>,
+  at: string[],
+  result: MergeResult,
+  reportConflict: (at: string[]) => boolean
+) {
+  const patch: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(theirs)) {
+    const keyPath = [...at, key];
+    if (value === null || value === undefined) continue;
+    if (!(key in ours)) {
+      patch[key] = value;
+      result.added.push(keyPath.join("."));
+    } else if (isPlainObject(ours[key]) && isPlainObject(value)) {
+      const nested = missingKeys(ours[key] as Record<string, unknown>, value, keyPath, result, reportConflict);
+      if (Object.keys(nested).length > 0) patch[key] = nested;
+    } else if (JSON.stringify(ours[key]) !== JSON.stringify(value) && reportConflict(keyPath)) {
+      result.conflicts.push(`${keyPath.join(".")}: kept ${JSON.stringify(ours[key])}, generated ${JSON.stringify(value)}`);
+    }
+  }
+  return patch;
+}
+
+// Existing values win; keys only the generated file has are added
+function mergeKeys(file: string, existing: string, incoming: string, reportConflict: (at: string[]) => boolean): MergeResult {
+  const format = /\.ya?ml$/i.test(file) || (/\.prettierrc$/.test(file) && !existing.trim().startsWith("{")) ? "yaml" : "json";
+  const ours = format === "json" ? JSON.parse(existing) : YAML.parse(existing) ?? {};
+  const theirs = YAML.parse(incoming);
+  if (!isPlainObject(ours) || !isPlainObject(theirs)) throw new Error(`Expected an object in ${file}`);
+
+  const result: MergeResult = { content: existing, added: [], conflicts: [] };
+  const patch = missingKeys(ours, theirs, [], result, reportConflict);
+  if (Object.keys(patch).length > 0) result.content = applyMergePatch(existing, patch, format);
+  return result;
+}
+
+type IniSection = { name: string; lines: string[]; values: Map<string, string> };
+
+function parseIni(text: string): IniSection[] {
+  const sections: IniSection[] = [{ name: "", lines: [], values: new Map() }];
+  for (const line of lines(text)) {
+    const header = line.match(/^\s*\[(.+)\]\s*$/);
+    if (header) {
+      sections.push({ name: header[1], lines: [line], values: new Map() });
+      continue;
+    }
+    const section = sections[sections.length - 1];
+    section.lines.push(line);
+    const pair = line.match(/^\s*([^#;=\s][^=]*?)\s*=\s*(.*?)\s*$/);
+    if (pair) section.values.set(pair[1].toLowerCase(), pair[2]);
+  }
+  return sections;
+}
+
+// Per-section key merge; missing keys go after the section's last setting
+function mergeEditorconfig(existing: string, incoming: string): MergeResult {
+  const ours = parseIni(existing);
+  const result: MergeResult = { content: existing, added: [], conflicts: [] };
+  const newSections: string[][] = [];
+
+  for (const section of parseIni(incoming)) {
+    const label = (key: string) => section.name ? `[${section.name}] ${key}` : key;
+    const target = ours.find(s => s.name === section.name);
+    if (!target) {
+      newSections.push([`[${section.name}]`, ...[...section.values].map(([key, value]) => `${key} = ${value}`)]);
+      result.added.push(`[${section.name}]`);
+      continue;
+    }
+    const missing = [...section.values].filter(([key, value]) => {
+      const current = target.values.get(key);
+      if (current !== undefined && current !== value) result.conflicts.push(`${label(key)}: kept ${current}, generated ${value}`);
+      return current === undefined;
+    });
+    if (missing.length === 0) continue;
+
+    let at = target.lines.length;
+    while (at > 0 && target.lines[at - 1].trim() === "") at--;
+    const added = missing.map(([key, value]) => `${key} = ${value}`);
+    if (target.lines.length === 0) added.push("");
+    target.lines.splice(at, 0, ...added);
+    result.added.push(...missing.map(([key]) => label(key)));
+  }
+
+  if (result.added.length === 0) return result;
+  let content = ours.filter(s => s.lines.length > 0).map(s => s.lines.join("\n")).join("\n");
+  for (const section of newSections) content = content.replace(/\n*$/, "\n\n") + section.join("\n") + "\n";
+  return { ...result, content };
+}
+
+/**
+ * Merges generated content into an existing file instead of replacing it.
+ * Throws when either side can't be parsed (e.g. a tsconfig with comments).
+ */
+export function mergeFileContent(kind: MergeKind, file: string, existing: string, incoming: string): MergeResult {
+  switch (kind) {
+    case "gitignore":
+      return mergeGitignore(existing, incoming);
+    case "editorconfig":
+      return mergeEditorconfig(existing, incoming);
+    case "package.json":
+      // Only script and dependency differences are worth reporting; name, version etc. always differ
+      return mergeKeys(file, existing, incoming, at => DEPENDENCY_SECTIONS.includes(at[0]) && at.length === 2);
+    case "keys":
+      return mergeKeys(file, existing, incoming, () => true);
+  }
+}
@@ -0,0 +1,57 @@
+import type { NodeKind } from "./types.js";
+
+// `Makefile @file`: marks a line as a file whatever its name looks like
+export const FILE_MARKER = /\s+@file$/;
+
+// Files that conventionally have no extension, matched case-insensitively
+export const EXTENSIONLESS_FILES = [
+  "Dockerfile", "Containerfile", "Makefile", "GNUmakefile", "Justfile", "Procfile",
+  "Gemfile", "Rakefile", "Podfile", "Brewfile", "Vagrantfile", "Jenkinsfile", "Caddyfile",
+  "Pipfile", "Guardfile", "Berksfile", "Capfile", "Fastfile", "Appfile",
+  "LICENSE", "LICENCE", "COPYING", "NOTICE", "AUTHORS", "CONTRIBUTORS", "CODEOWNERS", "OWNERS",
+  "README", "CHANGELOG", "CHANGES", "VERSION", "CNAME", "gradlew", "mvnw"
+];
+
+export type KindDecision = {
+  name: string;       // Without the trailing slash or file marker
+  kind: NodeKind;
+  warning?: string;   // Set when nothing on the line settles the kind
+};
+
+/**
+ * Decides whether a tree line is a file or a directory, most explicit first:
+ * trailing `/`, the `@file` marker, attached content, children, a known
+ * extensionless file name, an extension. Anything else is an empty directory.
+ */
+export function resolveNodeKind(
+  raw: string,
+  node: { hasContent: boolean; hasChildren: boolean },
+  extraFileNames: string[] = []
+): KindDecision {
+  if (raw.endsWith("/")) {
+    const name = raw.replace(/\/+$/, "");
+    if (node.hasContent) throw new Error(`Directory "${name}" cannot have file content`);
+    return { name, kind: "dir" };
+  }
+  if (FILE_MARKER.test(raw)) {
+    const name = raw.replace(FILE_MARKER, "");
+    if (node.hasChildren) throw new Error(`"${name}" is marked as a file but has children`);
+    return { name, kind: "file" };
+  }
+  if (node.hasContent) return { name: raw, kind: "file" };
+  if (node.hasChildren) return { name: raw, kind: "dir" };
+  if (isKnownFileName(raw, extraFileNames)) return { name: raw, kind: "file" };
+
+  // `.env` and `index.ts` are files; `v1.2` could be either
+  const extension = raw.slice(raw.lastIndexOf(".") + 1);
+  if (raw.lastIndexOf(".") > 0 && /^\d+$/.test(extension)) {
+    return { name: raw, kind: "file", warning: `"${raw}" has a numeric extension; treating it as a file (end it with / for a directory)` };
+  }
+  if (raw.includes(".")) return { name: raw, kind: "file" };
+  return { name: raw, kind: "dir", warning: `"${raw}" has no extension or children; treating it as an empty directory (end it with / or mark a file with @file)` };
+}
+
+export function isKnownFileName(name: string, extraFileNames: string[] = []) {
+  const lower = name.toLowerCase();
+  return [...EXTENSIONLESS_FILES, ...extraFileNames].some(known => known.toLowerCase() === lower);
+}
@@ -1,15 +1,85 @@
-import { ForgeConfig, TreeNode } from "./types.js";
+import { ForgeConfig, NodeContent, PathRewrite, TreeNode } from "./types.js";
 import path from "path";
 
-import { validateTree } from "./validator.js";
+import { formatLocation, validateTree, type ValidationError } from "./validator.js";
+import type { SourceLine } from "./tree-include.js";
+import { enforcePathRules } from "./path-utils.js";
+import { getRunLogger } from "./logger.js";
+import { FILE_MARKER, resolveNodeKind } from "./node-kind.js";
+import { expandName } from "./tree-expand.js";
+import { splitFrontmatter } from "./frontmatter.js";
+import { renderTreeLine, templateContext } from "./template-engine.js";
+
+export type ParseResult = {
+  roots: TreeNode[];
+  rewrites: PathRewrite[];  // Changes made by cfg.pathConflict, in tree order
+  warnings: ValidationError[];
+};
+
+// Content directives are swapped for this marker so comment stripping and
+// validation never see heredoc bodies or `<=`/`@template:` syntax
+const CONTENT_MARKER = /\uE000(\d+)\uE001/;
+const contentMarker = (index: number) => `\uE000${index}\uE001`;
+
+export const HEREDOC_START = /\s*<<-?\s*(['"]?)([A-Za-z_][\w-]*)\1\s*$/;
+export const FILE_SOURCE = /\s+<=\s*([^\s#]+)/;
+const TEMPLATE_HINT = /\s+@template:([\w./-]+)/;
+
+/**
+ * Pulls file content out of the tree text: heredoc blocks, `<= path` references
+ * and `@template:name` hints. Heredoc bodies are blanked so line numbers still line up.
+ */
+function extractContent(text: string, sources?: SourceLine[]): { text: string; contents: NodeContent[] } {
+  const lines = text.split(/\r?\n/);
+  const contents: NodeContent[] = [];
+  const attach = (line: string, pattern: RegExp, content: NodeContent) => {
+    contents.push(content);
+    return line.replace(pattern, contentMarker(contents.length - 1));
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const heredoc = line.match(HEREDOC_START);
+    if (heredoc) {
+      const tag = heredoc[2];
+      const end = lines.findIndex((l, idx) => idx > i && l.trim() === tag);
+      if (end === -1) {
+        throw new Error(`Invalid tree structure:\n${formatLocation(i + 1, sources)}: Heredoc "${tag}" is never closed\n  ${line.trim()}`);
+      }
+      const body = lines.slice(i + 1, end);
+      const indent = Math.min(
+        ...body.filter(l => l.trim()).map(l => l.match(/^\s*/)![0].length)
+      );
+      const textContent = body.map(l => l.slice(Number.isFinite(indent) ? indent : 0)).join("\n");
+      lines[i] = attach(line, HEREDOC_START, { type: "inline", text: textContent ? textContent + "\n" : "" });
+      for (let j = i + 1; j <= end; j++) lines[j] = "";
+      i = end;
+      continue;
+    }
+
+    const source = line.match(FILE_SOURCE);
+    if (source) {
+      lines[i] = attach(line, FILE_SOURCE, { type: "file", source: source[1] });
+      continue;
+    }
+    const template = line.match(TEMPLATE_HINT);
+    if (template) {
+      lines[i] = attach(line, TEMPLATE_HINT, { type: "template", name: template[1] });
+    }
+  }
+  return { text: lines.join("\n"), contents };
+}
+
+// Keeps the line breaks of a removed block so later line numbers still match the source
+const blankOut = (block: string) => block.replace(/[^\n]/g, '');
 
 function removeMultilineComments(text: string): string {
   // Remove Python-style triple quotes
-  text = text.replace(/"""[\s\S]*?"""/g, '');
-  text = text.replace(/'''[\s\S]*?'''/g, '');
+  text = text.replace(/"""[\s\S]*?"""/g, blankOut);
+  text = text.replace(/'''[\s\S]*?'''/g, blankOut);
   
   // Remove C-style multiline comments
-  text = text.replace(/\/\*[\s\S]*?\*\//g, '');
+  text = text.replace(/\/\*[\s\S]*?\*\//g, blankOut);
   
   // Remove hash-style multiline comments (lines starting with #)
   const lines = text.split(/\r?\n/);
@@ -34,67 +104,150 @@ function removeMultilineComments(text: string): string {
   return filteredLines.join('\n');
 }
 
-export function parseTree(text: string, cfg: ForgeConfig): TreeNode[] {
+/**
+ * The tree text with `{{ variable }}` placeholders filled from cfg.variables and the
+ * built-in template variables, as parseTree reads it. Heredoc bodies are left alone:
+ * they are rendered for each file later.
+ */
+export function interpolateTree(text: string, cfg: ForgeConfig): string {
+  const context = templateContext(cfg);
+  let heredocTag: string | undefined;
+  return text.split(/\r?\n/).map(line => {
+    if (heredocTag) {
+      if (line.trim() === heredocTag) heredocTag = undefined;
+      return line;
+    }
+    heredocTag = line.match(HEREDOC_START)?.[2];
+    return renderTreeLine(line, context).text;
+  }).join("\n");
+}
+
+export function parseTree(text: string, cfg: ForgeConfig, sources?: SourceLine[]): TreeNode[] {
+  return parseTreeWithReport(text, cfg, sources).roots;
+}
+
+/** `sources` comes from resolveIncludes and makes errors point at `file:line`. */
+export function parseTreeWithReport(text: string, cfg: ForgeConfig, sources?: SourceLine[]): ParseResult {
+  // Frontmatter is config, applied before parsing (see loadTreeConfig)
+  try {
+    text = splitFrontmatter(text).text;
+  } catch (error) {
+    throw new Error(`Invalid tree frontmatter:\n${error instanceof Error ? error.message : error}`);
+  }
+
+  // Take out file content before comments are stripped from it
+  const extracted = extractContent(text, sources);
+  text = extracted.text;
+
   // Remove multiline comments first
   text = removeMultilineComments(text);
 
-  const lines = text
+  // Placeholders are filled before names are split or expanded; comments may keep theirs
+  const context = text.includes("{{") ? templateContext(cfg) : {};
+  const placeholderErrors: ValidationError[] = [];
+  const numbered = text
     .split(/\r?\n/)
-    .map(l => {
+    .map((l, i) => {
       // Remove inline comments
-      return l
+      const stripped = l
         .replace(/\/\*.*?\*\//g, '')  // Remove inline /* comments */
         .replace(/\/\/.*$/g, '')      // Remove // comments
         .replace(/(?<!:)#.*$/g, '')   // Remove # comments (but not in URLs like http://)
         .replace(/\s+$/g, "");        // Trim trailing whitespace
+      const { text: line, errors } = renderTreeLine(stripped, context);
+      const source = sources?.[i];
+      errors.forEach(message => placeholderErrors.push({
+        type: 'error',
+        message,
+        line: source?.line ?? i + 1,
+        file: source?.file,
+        context: stripped.trim()
+      }));
+      return { line, number: i + 1 };
     })
-    .filter(l => {
+    .filter(({ line }) => {
       // Skip empty lines and tree guide-only lines
-      const trimmed = l.trim();
+      const trimmed = line.trim();
       if (trimmed.length === 0) return false;
       // Skip lines that are only tree guides (│, ├, └, |, +, `, ─)
       if (/^[│├└|+`─\s]+$/.test(trimmed)) return false;
       return true;
     });
-  const stack: { depth: number; node: TreeNode }[] = [];
-  const roots: TreeNode[] = [];
+  const lines = numbered.map(l => l.line);
+  // An expanded line leaves one node per expansion (under every parent) on the stack
+  const stack: { depth: number; nodes: TreeNode[] }[] = [];
+  let roots: TreeNode[] = [];
+  // Kinds are settled once children are known, see resolveNodeKind
+  const parsed: { node: TreeNode; raw: string; line: number; hasContent: boolean }[] = [];
   const unit = cfg.detectAsciiGuides ? detectIndentUnit(lines, cfg) : "  ";
-  for (const raw of lines) {
-    const { depth, name, hint } = splitDepth(raw, unit, cfg);
-    const kind: "dir" | "file" = name.endsWith("/") || name.includes(".") ? "file" : "dir";
-    const clean = name.replace(/\/$/, "");
-    const node: TreeNode = {
-      name: clean,
-      path: "",
-      kind: kind === "file" && !clean.includes(".") ? "dir" : kind,
-      children: [],
-      hint
-    };
+  for (const { line: raw, number } of numbered) {
+    const split = splitDepth(raw, unit, cfg);
+    const { depth } = split;
+    const marker = split.name.match(CONTENT_MARKER);
+    const content = marker ? extracted.contents[Number(marker[1])] : undefined;
+    const name = split.name.replace(CONTENT_MARKER, "").trim();
+    const hint = split.hint?.replace(CONTENT_MARKER, "").trim();
+
+    let expanded: string[];
+    try {
+      expanded = expandName(name);
+    } catch (error) {
+      throw new Error(`Invalid tree structure:\n${formatLocation(number, sources)}: ${error instanceof Error ? error.message : error}\n  ${name}`);
+    }
     while (stack.length && stack[stack.length - 1].depth >= depth) stack.pop();
-    
-    // Build the full path based on the stack
-    const pathParts = stack.map(item => item.node.name);
-    pathParts.push(clean);
-    
-    if (stack.length === 0) {
-      // For root nodes
-      node.path = clean;
-      roots.push(node);
-    } else {
-      // For child nodes
-      const parent = stack[stack.length - 1].node;
-      node.path = pathParts.join('/');
-      parent.children.push(node);
+    const parents: (TreeNode | undefined)[] = stack.length ? stack[stack.length - 1].nodes : [undefined];
+
+    const source = sources?.[number - 1];
+    const nodes: TreeNode[] = [];
+    for (const parent of parents) {
+      for (const raw of expanded) {
+        const clean = raw.replace(/\/+$/, "").replace(FILE_MARKER, "");
+        const node: TreeNode = {
+          name: clean,
+          // Build the full path from the parent's
+          path: parent ? `${parent.path}/${clean}` : clean,
+          kind: "dir",
+          children: [],
+          hint,
+          line: source?.line ?? number
+        };
+        if (source) node.file = source.file;
+        if (expanded.length > 1) node.expandedFrom = name;
+        if (content) node.content = content;
+        parsed.push({ node, raw, line: number, hasContent: !!content });
+        if (parent) parent.children.push(node);
+        else roots.push(node);
+        nodes.push(node);
+      }
+    }
+    stack.push({ depth, nodes });
+  }
+
+  const warnings: ValidationError[] = [];
+  for (const { node, raw, line, hasContent } of parsed) {
+    try {
+      const decision = resolveNodeKind(raw, { hasContent, hasChildren: node.children.length > 0 }, cfg.extensionlessFiles);
+      node.kind = decision.kind;
+      if (decision.warning) warnings.push({ type: 'warning', message: decision.warning, line: node.line, file: node.file, context: raw });
+    } catch (error) {
+      throw new Error(`Invalid tree structure:\n${formatLocation(line, sources)}: ${error instanceof Error ? error.message : error}`);
     }
-    stack.push({ depth, node });
   }
+
+  // Apply path rules and conflict strategies before validating what is left
+  let rewrites: PathRewrite[] = [];
+  if (cfg.pathValidation || cfg.pathConflict) {
+    ({ roots, rewrites } = enforcePathRules(roots, cfg));
+    if (rewrites.length > 0) logRewrites(rewrites, cfg);
+  }
+
   // Validate the tree structure
-  const errors = validateTree(text, roots);
+  const errors = [...placeholderErrors, ...validateTree(text, roots, cfg, sources)];
   const criticalErrors = errors.filter(e => e.type === 'error');
   
   if (criticalErrors.length > 0) {
     const errorMessages = criticalErrors.map(e => 
-      e.line ? `Line ${e.line}: ${e.message}${e.context ? `\n  ${e.context}` : ''}` 
+      e.line ? `${e.file ? `${e.file}:${e.line}` : `Line ${e.line}`}: ${e.message}${e.context ? `\n  ${e.context}` : ''}` 
              : e.message
     ).join('\n');
     throw new Error(`Invalid tree structure:\n${errorMessages}`);
@@ -110,7 +263,20 @@ export function parseTree(text: string, cfg: ForgeConfig): TreeNode[] {
     roots.forEach(updatePaths);
   }
 
-  return roots;
+  warnings.push(...errors.filter(e => e.type === 'warning'));
+  return { roots, rewrites, warnings };
+}
+
+function logRewrites(rewrites: PathRewrite[], cfg: ForgeConfig) {
+  const logger = getRunLogger(cfg);
+  for (const rewrite of rewrites) {
+    const metadata = { from: rewrite.from, code: rewrite.code, strategy: rewrite.strategy };
+    if (rewrite.to === null) {
+      logger.warn('Path Skipped', { target: rewrite.from, metadata });
+    } else {
+      logger.info('Path Rewritten', { target: rewrite.to, metadata });
+    }
+  }
 }
 
 function splitDepth(line: string, unit: string, cfg: ForgeConfig) {
@@ -122,16 +288,24 @@ function splitDepth(line: string, unit: string, cfg: ForgeConfig) {
     indent: unit
   };
 
-  // Create a regex pattern that matches any of the tree style characters
-  const guides = cfg.detectAsciiGuides
-    ? new RegExp(`[${style.vertical}${style.branch}${style.corner}${style.horizontal}]`, "g")
-    : null;
+  // Create a regex pattern that matches the leading run of tree style characters
+  // (plus the ASCII | + ` - guides)
+  const guideChars = `${style.vertical}${style.branch}${style.corner}${style.horizontal}|+\`-`
+    .replace(/[\]\\^-]/g, "\\$&");
+  const guides = cfg.detectAsciiGuides ? new RegExp(`^[\\s${guideChars}]*`) : null;
 
   let trimmed = line;
   
   // Handle different tree styles
   if (guides) {
-    trimmed = trimmed.replace(guides, " ");
+    // Only the guide prefix is blanked so names keep their own "-", "+" or "─".
+    // ASCII guide characters right before a name belong to it ("+- +page.svelte").
+    let prefix = line.match(guides)![0];
+    const lastSpace = prefix.search(/\s[^\s]*$/);
+    if (lastSpace !== -1) {
+      prefix = prefix.slice(0, lastSpace + 1) + prefix.slice(lastSpace + 1).replace(/[|+`-]+$/, "");
+    }
+    trimmed = " ".repeat(prefix.length) + line.slice(prefix.length);
   } else {
     // Handle simple dash/pipe style
     trimmed = trimmed
@@ -142,7 +316,7 @@ function splitDepth(line: string, unit: string, cfg: ForgeConfig) {
   trimmed = trimmed.replace(/#+\s.*$/, (m) => " " + m); // keep hint
   
   // Handle special case where line starts with tree characters
-  const treeStart = line.match(/^[-+|`]/) ? 1 : 0;
+  const treeStart = !guides && line.match(/^[-+|`]/) ? 1 : 0;
   
   const m = trimmed.match(/^(\s*)(.*)$/);
   const spaces = m ? m[1].length + treeStart : 0;
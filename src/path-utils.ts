@@ -1,5 +1,6 @@
-import type { PathValidationRules, PathConflictStrategy, ForgeConfig } from "./types.js";
+import type { PathValidationRules, PathConflictStrategy, ForgeConfig, PathRewrite, TreeNode } from "./types.js";
 import path from "path";
+import { createHash } from "crypto";
 
 export interface PathValidationError {
   type: 'error' | 'warning';
@@ -62,8 +63,21 @@ export class PathValidator {
   }
 
   validatePath(filePath: string): PathValidationError[] {
-    const errors: PathValidationError[] = [];
     const normalizedPath = this.normalizePath(filePath);
+    const errors = this.inspectPath(normalizedPath);
+
+    // Remember the path a duplicate resolves to, so the next duplicate picks a new name
+    const duplicate = errors.find(e => e.code === "duplicatePath" || e.code === "duplicateName");
+    this.recordPath((duplicate?.details?.resolvedPath as string | undefined) ?? normalizedPath);
+
+    return errors;
+  }
+
+  /**
+   * Checks an already normalized path against the rules without recording it as seen.
+   */
+  inspectPath(normalizedPath: string): PathValidationError[] {
+    const errors: PathValidationError[] = [];
     const parts = normalizedPath.split("/");
     const name = parts[parts.length - 1];
     const parentDir = parts.slice(0, -1).join("/");
@@ -177,25 +191,50 @@ export class PathValidator {
         path: normalizedPath
       }));
     }
-    this.seenPaths.add(normalizedPath);
 
     // Check unique names within directories
-    if (this.rules.uniqueNames) {
-      const dirNames = this.seenNames.get(parentDir) || new Set();
-      if (dirNames.has(name)) {
-        errors.push(this.handleViolation("duplicateName", {
-          path: normalizedPath,
-          name,
-          directory: parentDir
-        }));
-      }
-      dirNames.add(name);
-      this.seenNames.set(parentDir, dirNames);
+    if (this.rules.uniqueNames && this.seenNames.get(parentDir)?.has(name)) {
+      errors.push(this.handleViolation("duplicateName", {
+        path: normalizedPath,
+        name,
+        directory: parentDir
+      }));
     }
 
     return errors;
   }
 
+  /**
+   * Marks a normalized path as taken for the duplicate path/name checks.
+   */
+  recordPath(normalizedPath: string) {
+    const parts = normalizedPath.split("/");
+    const name = parts[parts.length - 1];
+    const parentDir = parts.slice(0, -1).join("/");
+
+    this.seenPaths.add(normalizedPath);
+    const dirNames = this.seenNames.get(parentDir) || new Set();
+    dirNames.add(name);
+    this.seenNames.set(parentDir, dirNames);
+  }
+
+  /**
+   * Name of the configured strategy handling a violation code, for reporting.
+   */
+  strategyFor(code: string): string {
+    const strategy =
+      code === "duplicatePath" ? this.strategy.onDuplicatePath
+      : code === "duplicateName" ? this.strategy.onDuplicateName
+      : code === "invalidChars" ? this.strategy.onInvalidChars
+      : code === "longPath" ? this.strategy.onLongPath
+      : "error";
+    return typeof strategy === "function" ? "custom" : strategy;
+  }
+
+  get maxAttempts(): number {
+    return this.strategy.maxAttempts;
+  }
+
   private resolveConflict(
     path: string,
     code: string,
@@ -207,11 +246,13 @@ export class PathValidator {
 
     switch (code) {
       case 'duplicatePath': {
-        const strategy = typeof this.strategy.onDuplicatePath === 'function'
-          ? this.strategy.onDuplicatePath
-          : this.strategy.onDuplicatePath;
+        const strategy = this.strategy.onDuplicatePath;
+        if (typeof strategy === 'function') {
+          return strategy(path, { type: 'duplicate', existing: path, details });
+        }
 
         switch (strategy) {
+          case 'rename':
           case 'numbered':
             return this.renameNumbered(path, ext);
           case 'timestamp':
@@ -227,11 +268,13 @@ export class PathValidator {
       }
 
       case 'duplicateName': {
-        const strategy = typeof this.strategy.onDuplicateName === 'function'
-          ? this.strategy.onDuplicateName
-          : this.strategy.onDuplicateName;
+        const strategy = this.strategy.onDuplicateName;
+        if (typeof strategy === 'function') {
+          return strategy(path, { type: 'duplicate', existing: path, details });
+        }
 
         switch (strategy) {
+          case 'rename':
           case 'numbered':
             return this.renameNumbered(path, ext);
           case 'timestamp':
@@ -244,9 +287,10 @@ export class PathValidator {
       }
 
       case 'invalidChars': {
-        const strategy = typeof this.strategy.onInvalidChars === 'function'
-          ? this.strategy.onInvalidChars
-          : this.strategy.onInvalidChars;
+        const strategy = this.strategy.onInvalidChars;
+        if (typeof strategy === 'function') {
+          return strategy(path, { type: 'invalid', details });
+        }
 
         switch (strategy) {
           case 'replace':
@@ -263,9 +307,10 @@ export class PathValidator {
       }
 
       case 'longPath': {
-        const strategy = typeof this.strategy.onLongPath === 'function'
-          ? this.strategy.onLongPath
-          : this.strategy.onLongPath;
+        const strategy = this.strategy.onLongPath;
+        if (typeof strategy === 'function') {
+          return strategy(path, { type: 'long', details });
+        }
 
         switch (strategy) {
           case 'truncate':
@@ -360,10 +405,9 @@ export class PathValidator {
   }
 
   private hashPath(path: string, algorithm: string, ext: string): string {
-    const crypto = require("crypto");
     const dir = path.substring(0, path.lastIndexOf("/") + 1);
     const baseName = path.substring(dir.length).replace(/\.[^.]+$/, "");
-    const hash = crypto.createHash(algorithm).update(baseName).digest("hex").substring(0, 8);
+    const hash = createHash(algorithm).update(baseName).digest("hex").substring(0, 8);
     return dir + hash + ext;
   }
 
@@ -395,7 +439,7 @@ export class PathValidator {
     const path = details.path as string;
     let type: 'error' | 'warning' = 'error';
     let message = '';
-    let resolvedPath = '';
+    let resolvedPath: string | undefined;
 
     switch (code) {
       case 'longPath':
@@ -451,7 +495,9 @@ export class PathValidator {
       path, 
       details: { 
         ...details, 
-        resolvedPath: resolvedPath || path 
+        resolvedPath: resolvedPath || path,
+        // The "skip" strategy resolves to an empty path: drop the entry entirely
+        ...(resolvedPath === '' ? { skip: true } : {})
       } 
     };
   }
@@ -492,6 +538,84 @@ export class PathValidator {
   }
 }
 
+/**
+ * Applies the configured PathValidationRules and PathConflictStrategy to a parsed
+ * tree, top-down. Nodes are renamed, merged into an earlier duplicate or dropped
+ * according to the strategy; every change is returned as a PathRewrite. Violations
+ * without a resolving strategy are left for validateTree to report.
+ */
+export function enforcePathRules(
+  roots: TreeNode[],
+  cfg: ForgeConfig
+): { roots: TreeNode[]; rewrites: PathRewrite[] } {
+  const validator = new PathValidator(cfg.pathValidation, cfg.pathConflict);
+  const rewrites: PathRewrite[] = [];
+  const byPath = new Map<string, TreeNode>();
+
+  const visit = (nodes: TreeNode[], parentPath?: string): TreeNode[] => {
+    const kept: TreeNode[] = [];
+
+    for (const node of nodes) {
+      const originalPath = node.path;
+      let current = validator.normalizePath(parentPath ? `${parentPath}/${node.name}` : node.path);
+      let last: PathRewrite | undefined;
+      let skipped = false;
+
+      for (let attempt = 0; attempt < validator.maxAttempts; attempt++) {
+        const violations = validator.inspectPath(current);
+
+        const existing = byPath.get(current);
+        if (existing && validator.strategyFor("duplicatePath") === "merge"
+            && violations.some(v => v.code === "duplicatePath")) {
+          last = { from: originalPath, to: current, code: "duplicatePath", strategy: "merge" };
+          rewrites.push(last);
+          if (existing.kind === "dir" && node.kind === "dir") {
+            existing.children.push(...visit(node.children, current));
+          }
+          skipped = true;
+          break;
+        }
+
+        const fix = violations.find(v =>
+          v.details?.skip || (v.details?.resolvedPath && v.details.resolvedPath !== current)
+        );
+        if (!fix) break;
+
+        if (fix.details?.skip) {
+          rewrites.push({ from: originalPath, to: null, code: fix.code, strategy: validator.strategyFor(fix.code) });
+          skipped = true;
+          break;
+        }
+
+        // Parents are already resolved, so only this node's own name may change here
+        const resolved = fix.details?.resolvedPath as string;
+        const next = parentPath ? `${parentPath}/${path.posix.basename(resolved)}` : resolved;
+        if (next === current) break;
+
+        last = { from: current, to: next, code: fix.code, strategy: validator.strategyFor(fix.code) };
+        rewrites.push(last);
+        current = next;
+      }
+
+      if (skipped) continue;
+
+      validator.recordPath(current);
+      byPath.set(current, node);
+      if (last) {
+        node.rewrite = { ...last, from: originalPath };
+      }
+      node.path = current;
+      node.name = path.posix.basename(current);
+      node.children = visit(node.children, current);
+      kept.push(node);
+    }
+
+    return kept;
+  };
+
+  return { roots: visit(roots), rewrites };
+}
+
 export class PathNormalizer {
   constructor(private config: ForgeConfig) {}
 
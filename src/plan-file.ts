@@ -0,0 +1,151 @@
+import { existsSync, readFileSync, statSync, writeFileSync } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import type { ForgeConfig, PlanAction, PlanOrigin, TreeNode } from "./types.js";
+import { STATS_LOG_CONFIG } from "./types.js";
+import { walkDirectory, type CaptureNode } from "./capture.js";
+import { BACKUP_DIR } from "./utils.js";
+import { ARCHIVE_DIR, snapshotTree, type SyncState } from "./sync.js";
+import { resolveIncludes } from "./tree-include.js";
+
+export const PLAN_FILE_VERSION = 1;
+export const DEFAULT_PLAN_FILE = "forge-tree.plan.json";
+
+export type PlannedAction = {
+  action: PlanAction;
+  origin: PlanOrigin;
+};
+
+// The settings applyPlan needs, frozen when the plan is made
+export type PlanConfigSnapshot = Pick<
+  ForgeConfig,
+  | "packageManager" | "runDetectors" | "generateDotfiles" | "overwriteMode" | "skipExisting" | "backup" | "transactional" | "sync"
+  | "templateDir" | "variables" | "preserveGitIgnore" | "preservePackageJson" | "preserveConfig"
+>;
+
+export type PlanFile = {
+  version: typeof PLAN_FILE_VERSION;
+  createdAt: string;
+  targetDir: string;
+  tree: { file?: string; hash: string; nodes: SyncState["nodes"] };
+  config: PlanConfigSnapshot;
+  target: { fingerprint: string; excluded: string[] };  // State of targetDir when planned
+  actions: PlannedAction[];
+};
+
+export function hashText(text: string) {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+// Plan paths are resolved so the plan applies the same from any working directory
+function resolveAction(action: PlanAction): PlanAction {
+  if (action.type === "exec") return { ...action, cwd: path.resolve(action.cwd) };
+  if (action.type === "copy") return { ...action, from: path.resolve(action.from), path: path.resolve(action.path) };
+  return { ...action, path: path.resolve(action.path) };
+}
+
+/**
+ * Hashes the layout of targetDir (relative path, kind, size and mtime), leaving
+ * out forge-tree's own logs, state and backups so planning doesn't change it.
+ */
+export function fingerprintTarget(targetDir: string, excluded: string[] = []) {
+  if (!existsSync(targetDir)) return "absent";
+  const skip = new Set([".forge-tree", BACKUP_DIR, ARCHIVE_DIR, ...excluded]);
+  const hash = createHash("sha256");
+
+  const visit = (node: CaptureNode, parent: string) => {
+    for (const child of node.children) {
+      const rel = parent ? `${parent}/${child.name}` : child.name;
+      if (skip.has(rel)) continue;
+      const stat = statSync(path.join(targetDir, rel));
+      hash.update(child.isDirectory ? `${rel}/\n` : `${rel}\t${stat.size}\t${stat.mtimeMs}\n`);
+      visit(child, rel);
+    }
+  };
+  visit(walkDirectory(targetDir), "");
+  return hash.digest("hex");
+}
+
+export function createPlanFile(options: {
+  cfg: ForgeConfig;
+  roots: TreeNode[];
+  treeSource: string;
+  actions: PlanAction[];
+  originOf: (action: PlanAction) => PlanOrigin;
+  planFile: string;
+}): PlanFile {
+  const { cfg, roots, treeSource, actions, originOf, planFile } = options;
+
+  // Files forge-tree itself writes into targetDir between plan and apply
+  const excluded = [cfg.logging?.file || "forge-tree.log", STATS_LOG_CONFIG.file || "forge-tree.stats.json"];
+  const planRel = path.relative(cfg.targetDir, path.resolve(planFile));
+  if (!planRel.startsWith("..") && !path.isAbsolute(planRel)) excluded.push(planRel.split(path.sep).join("/"));
+
+  const config: PlanConfigSnapshot = {
+    packageManager: cfg.packageManager,
+    runDetectors: cfg.runDetectors,
+    generateDotfiles: cfg.generateDotfiles,
+    overwriteMode: cfg.overwriteMode,
+    skipExisting: cfg.skipExisting,
+    backup: cfg.backup,
+    transactional: cfg.transactional,
+    sync: cfg.sync,
+    templateDir: cfg.templateDir,
+    variables: cfg.variables,
+    preserveGitIgnore: cfg.preserveGitIgnore,
+    preservePackageJson: cfg.preservePackageJson,
+    preserveConfig: cfg.preserveConfig
+  };
+
+  return {
+    version: PLAN_FILE_VERSION,
+    createdAt: new Date().toISOString(),
+    targetDir: cfg.targetDir,
+    tree: {
+      file: cfg.treeFile ? path.resolve(cfg.treeFile) : undefined,
+      hash: hashText(treeSource),
+      nodes: snapshotTree(roots, cfg.targetDir).nodes
+    },
+    config,
+    target: { fingerprint: fingerprintTarget(cfg.targetDir, excluded), excluded },
+    actions: actions.map(action => ({ action: resolveAction(action), origin: originOf(action) }))
+  };
+}
+
+export function writePlanFile(file: string, plan: PlanFile) {
+  writeFileSync(file, JSON.stringify(plan, null, 2) + "\n");
+}
+
+export function loadPlanFile(file: string): PlanFile {
+  if (!existsSync(file)) throw new Error(`Plan file not found: ${file}`);
+  let plan: PlanFile;
+  try {
+    plan = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Invalid plan file ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (plan?.version !== PLAN_FILE_VERSION) {
+    throw new Error(`Unsupported plan file version ${plan?.version} in ${file} (expected ${PLAN_FILE_VERSION})`);
+  }
+  if (!Array.isArray(plan.actions) || typeof plan.targetDir !== "string") {
+    throw new Error(`Invalid plan file ${file}: missing targetDir or actions`);
+  }
+  return plan;
+}
+
+/**
+ * Reasons the plan may no longer match reality: a changed target directory
+ * blocks the apply, an edited tree file only deserves a warning.
+ */
+export async function checkPlanFile(plan: PlanFile): Promise<{ targetChanged: boolean; treeChanged: boolean }> {
+  const fingerprint = fingerprintTarget(plan.targetDir, plan.target.excluded);
+  const treeFile = plan.tree.file;
+  // The tree was hashed with its includes spliced in; a fragment that went missing counts as a change
+  const tree = treeFile && existsSync(treeFile)
+    ? await resolveIncludes(readFileSync(treeFile, "utf8"), treeFile, process.cwd()).catch(() => ({ text: "" }))
+    : undefined;
+  return {
+    targetChanged: fingerprint !== plan.target.fingerprint,
+    treeChanged: !!tree && hashText(tree.text) !== plan.tree.hash
+  };
+}
@@ -0,0 +1,136 @@
+import path from "path";
+import type { ForgeConfig, PlanAction, PlanOrigin } from "./types.js";
+import { mergeFileContent, mergeKindFor } from "./merge.js";
+
+export type ConflictPolicy = NonNullable<ForgeConfig["onConflict"]>;
+
+type WriteAction = Extract<PlanAction, { type: "write" }>;
+
+export type PlanConflict = {
+  path: string;
+  kept: PlanOrigin;      // The write that won, or the base of a merge
+  others: PlanOrigin[];
+  resolution: string;
+};
+
+export type NormalizedPlan = {
+  actions: PlanAction[];
+  duplicateDirs: number;
+  duplicateWrites: number;  // Same path and content from several sources
+  conflicts: PlanConflict[];
+};
+
+export function describeOrigin(origin: PlanOrigin) {
+  switch (origin.source) {
+    case "tree":
+      return `tree (${origin.node})`;
+    case "detector":
+      return `detector ${origin.detectorId} (${origin.node})`;
+    case "defaults":
+      return "defaults";
+  }
+}
+
+/** Everything but detector output counts as "tree" for the tree-wins policy. */
+const fromDetector = (origin: PlanOrigin) => origin.source === "detector";
+
+function resolveWrites(
+  writes: WriteAction[],
+  originOf: (action: PlanAction) => PlanOrigin,
+  policy: ConflictPolicy
+): { action: WriteAction; base: WriteAction; resolution: string } {
+  const prefer = (detector: boolean) => writes.find(w => fromDetector(originOf(w)) === detector) ?? writes[0];
+  if (policy === "detector") return { action: prefer(true), base: prefer(true), resolution: "detector wins" };
+  if (policy === "tree") return { action: prefer(false), base: prefer(false), resolution: "tree wins" };
+
+  // merge: the tree's file is the base, detector content fills in what it lacks
+  const base = prefer(false);
+  const others = writes.filter(w => w !== base);
+  if (base.content === "") {
+    const filled = others.find(w => w.content !== "") ?? base;
+    return { action: { ...base, content: filled.content }, base, resolution: "merged (tree file was empty)" };
+  }
+  const kind = mergeKindFor(base.path, { preserveGitIgnore: true, preservePackageJson: true, preserveConfig: true });
+  if (!kind) return { action: base, base, resolution: "tree wins (no merge for this file type)" };
+
+  let content = base.content;
+  for (const other of others) {
+    try {
+      content = mergeFileContent(kind, base.path, content, other.content).content;
+    } catch {
+      return { action: base, base, resolution: "tree wins (contents could not be parsed for a merge)" };
+    }
+  }
+  return { action: { ...base, content }, base, resolution: "merged" };
+}
+
+/**
+ * Cleans up the combined tree + detector plan before it is shown: repeated
+ * mkdirs and identical writes are dropped, and writes to the same path with
+ * different content are resolved with the policy. Resolved actions keep the
+ * position of the first write to that path.
+ */
+export function normalizePlan(
+  plan: PlanAction[],
+  origins: Map<PlanAction, PlanOrigin>,
+  policy: ConflictPolicy = "tree"
+): NormalizedPlan {
+  const originOf = (action: PlanAction) => origins.get(action) ?? { source: "defaults" as const };
+  const key = (p: string) => path.resolve(p);
+
+  const writesByPath = new Map<string, WriteAction[]>();
+  for (const action of plan) {
+    if (action.type !== "write") continue;
+    const group = writesByPath.get(key(action.path)) ?? [];
+    group.push(action);
+    writesByPath.set(key(action.path), group);
+  }
+
+  const result: NormalizedPlan = { actions: [], duplicateDirs: 0, duplicateWrites: 0, conflicts: [] };
+  const seenDirs = new Set<string>();
+  const conflicting: WriteAction[][] = [];
+  for (const action of plan) {
+    if (action.type === "mkdir") {
+      if (seenDirs.has(key(action.path))) result.duplicateDirs++;
+      else {
+        seenDirs.add(key(action.path));
+        result.actions.push(action);
+      }
+      continue;
+    }
+    if (action.type !== "write") {
+      result.actions.push(action);
+      continue;
+    }
+
+    const group = writesByPath.get(key(action.path))!;
+    if (group[0] !== action) continue;
+    const distinct = group.filter((w, i) => group.findIndex(o => o.content === w.content) === i);
+    result.duplicateWrites += group.length - distinct.length;
+    if (distinct.length === 1) {
+      result.actions.push(action);
+      continue;
+    }
+    conflicting.push(distinct);
+
+    if (policy === "error") {
+      result.actions.push(action);
+      continue;
+    }
+    const { action: resolved, base, resolution } = resolveWrites(distinct, originOf, policy);
+    if (resolved !== base) origins.set(resolved, originOf(base));
+    result.actions.push(resolved);
+    result.conflicts.push({
+      path: action.path,
+      kept: originOf(base),
+      others: distinct.filter(w => w !== base).map(originOf),
+      resolution
+    });
+  }
+
+  if (policy === "error" && conflicting.length > 0) {
+    const lines = conflicting.map(group => `  ${group[0].path}: ${group.map(w => describeOrigin(originOf(w))).join(" vs ")}`);
+    throw new Error(`Conflicting writes in plan:\n${lines.join("\n")}`);
+  }
+  return result;
+}
@@ -1,6 +1,6 @@
 // src/prompts.ts
 import prompts from "prompts";
-import type { Detector, ForgeConfig, TreeNode } from "./types.js";
+import type { Detector, ForgeConfig, TemplateValue, TemplateVariable, TreeNode } from "./types.js";
 
 const AUTO =
   process.env.FORGE_TREE_NO_PROMPT === "1" ||
@@ -99,3 +99,88 @@ export async function askPerNode(_node: TreeNode, _id: string) {
 
   return !!res.go;
 }
+
+export type OverwriteChoice = "overwrite" | "skip" | "overwrite-all" | "skip-all";
+
+export async function askOverwrite(filePath: string, diff: string, yes: boolean): Promise<OverwriteChoice> {
+  if (yes || AUTO) return "skip"; // --yes and headless: never clobber existing files without --overwrite force
+
+  console.log(`\n📝 ${filePath} already exists and would change:`);
+  console.log(diff);
+
+  const res = await prompts({
+    type: "select",
+    name: "choice",
+    message: `Overwrite "${filePath}"?`,
+    choices: [
+      { title: "overwrite", value: "overwrite" },
+      { title: "skip", value: "skip" },
+      { title: "overwrite all remaining", value: "overwrite-all" },
+      { title: "skip all remaining", value: "skip-all" }
+    ],
+    initial: 1
+  });
+  return (res.choice as OverwriteChoice) || "skip";
+}
+
+export async function askRemovedNodes(paths: string[], yes: boolean): Promise<"keep" | "delete" | "archive"> {
+  if (yes || AUTO) return "keep"; // headless: only remove with an explicit --removed mode
+
+  console.log(`\n🗑  ${paths.length} path(s) were removed from the tree since the last run:`);
+  paths.forEach((p) => console.log(`  • ${p}`));
+
+  const res = await prompts({
+    type: "select",
+    name: "choice",
+    message: "What should happen to them?",
+    choices: [
+      { title: "keep", value: "keep" },
+      { title: "archive to .forge-tree-archive/", value: "archive" },
+      { title: "delete", value: "delete" }
+    ],
+    initial: 0
+  });
+  return res.choice || "keep";
+}
+
+export async function askTemplateVariables(
+  defs: TemplateVariable[],
+  yes: boolean,
+  validate: (def: TemplateVariable, value: TemplateValue) => string | true
+): Promise<Record<string, TemplateValue>> {
+  if (yes || AUTO) return {}; // headless: defaults, flags and env only
+
+  const res = await prompts(
+    defs.map((def) => {
+      const message = def.description ? `${def.name} (${def.description})` : def.name;
+      if (def.choices) {
+        return {
+          type: "select" as const,
+          name: def.name,
+          message,
+          choices: def.choices.map((c) => ({ title: c, value: c })),
+          initial: Math.max(0, def.choices.indexOf(String(def.default)))
+        };
+      }
+      if (def.type === "boolean") {
+        return {
+          type: "toggle" as const,
+          name: def.name,
+          message,
+          initial: def.default === true || def.default === "true",
+          active: "yes",
+          inactive: "no"
+        };
+      }
+      return {
+        type: "text" as const,
+        name: def.name,
+        message,
+        initial: def.default === undefined ? undefined : String(def.default),
+        validate: (value: string) =>
+          value === "" && (def.required === false || def.default !== undefined) ? true : validate(def, value)
+      };
+    })
+  );
+  return res as Record<string, TemplateValue>;
+}
@@ -0,0 +1,89 @@
+import type { RedactionConfig } from "./types.js";
+
+export const REDACTED = "[REDACTED]";
+
+// Key names whose values are always hidden, e.g. GITHUB_TOKEN, dbPassword, STRIPE_SECRET
+const SENSITIVE_KEY = /password|passwd|passphrase|^pwd$|secret|token|api[-_]?key|private[-_]?key|access[-_]?key|credentials?$|^auth$|authorization|cookie|session[-_]?id/i;
+
+// `NAME=value` / `"name": "value"` inside free text, for the same kind of names
+const SENSITIVE_ASSIGNMENT = /([\w.-]*(?:password|passwd|secret|token|api[-_]?key|private[-_]?key|access[-_]?key)[\w.-]*"?\s*[=:]\s*"?)([^\s"',;&}]+)/gi;
+
+// Well-known credential formats, wherever they appear
+const BUILTIN_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\b(?:gh[pousr]_[A-Za-z0-9]{20,}|github_pat_\w{20,})/g,
+  /\bnpm_[A-Za-z0-9]{20,}/g,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{10,}/g,
+  /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]+/g
+];
+
+/**
+ * Hides secrets before they reach a log, stats or viewer file: values under
+ * sensitive keys, known token formats, credentials in URLs and `Bearer`
+ * headers, plus the configured `keys` and `patterns`.
+ */
+export class Redactor {
+  private readonly enabled: boolean;
+  private readonly replacement: string;
+  private readonly keys: RegExp[];
+  private readonly patterns: RegExp[];
+
+  constructor(config: RedactionConfig = {}) {
+    this.enabled = config.enabled ?? true;
+    this.replacement = config.replacement ?? REDACTED;
+    this.keys = [SENSITIVE_KEY, ...(config.keys ?? []).map(k => compile(k, "i"))];
+    this.patterns = [...BUILTIN_PATTERNS, ...(config.patterns ?? []).map(p => compile(p, "g"))];
+  }
+
+  isSensitiveKey(key: string) {
+    return this.keys.some(pattern => pattern.test(key));
+  }
+
+  text(value: string): string {
+    if (!this.enabled) return value;
+    let result = value;
+    for (const pattern of this.patterns) result = result.replace(pattern, this.replacement);
+    return result
+      .replace(SENSITIVE_ASSIGNMENT, (_, prefix: string) => prefix + this.replacement)
+      .replace(/(\bBearer\s+)[\w.~+/-]+=*/gi, (_, prefix: string) => prefix + this.replacement)
+      .replace(/(\/\/[^/\s:@]+:)[^@\s/]+@/g, (_, prefix: string) => `${prefix}${this.replacement}@`);
+  }
+
+  /** Deep copy of a log value with secrets replaced. */
+  value<T>(value: T): T {
+    if (!this.enabled) return value;
+    return this.visit(value, new WeakSet()) as T;
+  }
+
+  // `ancestors` holds the objects on the current path, to cut cycles
+  private visit(value: unknown, ancestors: WeakSet<object>): unknown {
+    if (typeof value === "string") return this.text(value);
+    if (typeof value !== "object" || value === null) return value;
+    if (ancestors.has(value)) return "[Circular]";
+    ancestors.add(value);
+
+    let result: unknown;
+    if (Array.isArray(value)) {
+      result = value.map(item => this.visit(item, ancestors));
+    } else {
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const hide = this.isSensitiveKey(key) && (typeof item === "string" || typeof item === "number");
+        copy[key] = hide ? this.replacement : this.visit(item, ancestors);
+      }
+      result = copy;
+    }
+    ancestors.delete(value);
+    return result;
+  }
+}
+
+function compile(source: string, flags: string) {
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    throw new Error(`Invalid redaction pattern "${source}": ${error instanceof Error ? error.message : error}`);
+  }
+}
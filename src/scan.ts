@@ -11,7 +11,7 @@ interface ScanNode {
   placeholderReason?: string;
 }
 
-const EXCLUDED_DIRS = [
+export const EXCLUDED_DIRS = [
   'node_modules',
   '.git',
   '.next',
@@ -0,0 +1,122 @@
+import { existsSync, lstatSync, mkdirSync, readdirSync, readFileSync, readlinkSync, statSync, writeFileSync } from "fs";
+import path from "path";
+import type { ForgeConfig, PlanAction, TreeNode } from "./types.js";
+import { planNode } from "./generators.js";
+
+export const SYNC_STATE_FILE = path.join(".forge-tree", "sync-state.json");
+export const ARCHIVE_DIR = ".forge-tree-archive";
+
+export type RemovedMode = "ask" | "keep" | "delete" | "archive";
+
+// The spec of the last applied run, relative to targetDir
+export type SyncState = {
+  version: 1;
+  updatedAt: string;
+  nodes: { path: string; kind: "file" | "dir" }[];
+};
+
+export type SyncDelta = {
+  added: TreeNode[];    // Nodes missing on disk, parents before children
+  unchanged: number;    // Nodes already on disk with the right kind
+  conflicts: { path: string; expected: "file" | "dir" }[];  // On disk with the other kind, left alone
+  removed: string[];    // Dropped from the spec since the last run and still on disk
+};
+
+function relativeTo(targetDir: string, p: string) {
+  return path.relative(targetDir, path.resolve(p)).split(path.sep).join("/");
+}
+
+export function snapshotTree(roots: TreeNode[], targetDir: string): SyncState {
+  const nodes: SyncState["nodes"] = [];
+  const visit = (node: TreeNode) => {
+    nodes.push({ path: relativeTo(targetDir, node.path), kind: node.kind });
+    node.children.forEach(visit);
+  };
+  roots.forEach(visit);
+  return { version: 1, updatedAt: new Date().toISOString(), nodes };
+}
+
+export function loadSyncState(targetDir: string): SyncState | undefined {
+  const file = path.join(targetDir, SYNC_STATE_FILE);
+  if (!existsSync(file)) return undefined;
+  const state = JSON.parse(readFileSync(file, "utf8")) as SyncState;
+  if (state?.version !== 1 || !Array.isArray(state.nodes)) {
+    throw new Error(`Unsupported sync state in ${file}`);
+  }
+  return state;
+}
+
+export function saveSyncState(targetDir: string, state: TreeNode[] | SyncState) {
+  const file = path.join(targetDir, SYNC_STATE_FILE);
+  const snapshot = Array.isArray(state) ? snapshotTree(state, targetDir) : { ...state, updatedAt: new Date().toISOString() };
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(snapshot, null, 2));
+  return file;
+}
+
+/**
+ * Compares the parsed tree with the filesystem and the state of the previous
+ * run. Removed paths are reported topmost first and only inside targetDir.
+ */
+export function diffTree(roots: TreeNode[], targetDir: string, previous?: SyncState): SyncDelta {
+  const delta: SyncDelta = { added: [], unchanged: 0, conflicts: [], removed: [] };
+
+  const visit = (node: TreeNode) => {
+    if (!existsSync(node.path)) {
+      delta.added.push(node);
+    } else if (statSync(node.path).isDirectory() !== (node.kind === "dir")) {
+      delta.conflicts.push({ path: node.path, expected: node.kind });
+      return;
+    } else {
+      delta.unchanged++;
+    }
+    node.children.forEach(visit);
+  };
+  roots.forEach(visit);
+
+  if (previous) {
+    const current = new Set(snapshotTree(roots, targetDir).nodes.map(n => n.path));
+    const removed = new Set<string>();
+    for (const { path: rel } of previous.nodes) {
+      if (!rel || current.has(rel) || rel === ".." || rel.startsWith("../") || path.isAbsolute(rel)) continue;
+      if ([...removed].some(r => rel.startsWith(r + "/"))) continue;
+      if (existsSync(path.join(targetDir, rel))) removed.add(rel);
+    }
+    delta.removed = [...removed];
+  }
+  return delta;
+}
+
+// Only the new nodes: no dotfiles or turbo.json, which the first run already planned
+export function planSync(delta: SyncDelta, cfg: ForgeConfig): PlanAction[] {
+  return delta.added.map(node => planNode(node, cfg));
+}
+
+/**
+ * Plans `remove` steps for paths removed from the tree; for archive, their
+ * contents are first copied to <targetDir>/.forge-tree-archive/<stamp>/. As plan
+ * steps they are journaled and checked against targetDir like the rest of the run.
+ */
+export function planRemoved(removed: string[], mode: Exclude<RemovedMode, "ask">, targetDir: string): PlanAction[] {
+  if (mode === "keep") return [];
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const actions: PlanAction[] = [];
+  const archive = (from: string, to: string) => {
+    const stat = lstatSync(from);
+    if (stat.isSymbolicLink()) {
+      actions.push({ type: "symlink", path: to, target: readlinkSync(from) });
+    } else if (stat.isDirectory()) {
+      actions.push({ type: "mkdir", path: to });
+      readdirSync(from).sort().forEach(entry => archive(path.join(from, entry), path.join(to, entry)));
+    } else {
+      actions.push({ type: "copy", from, path: to });
+    }
+  };
+
+  for (const rel of removed) {
+    const abs = path.join(targetDir, rel);
+    if (mode === "archive") archive(abs, path.join(targetDir, ARCHIVE_DIR, stamp, rel));
+    actions.push({ type: "remove", path: abs });
+  }
+  return actions;
+}
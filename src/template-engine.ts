@@ -0,0 +1,402 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import path from "path";
+import type { ForgeConfig, PlanAction, TreeNode } from "./types.js";
+
+/**
+ * A small Handlebars-flavoured template language used for templateDir files,
+ * tree-declared content and templated file names:
+ *
+ *   {{ name | pascalCase }}                    output, with filters
+ *   {{#if pm == "pnpm"}} ... {{else}} ... {{/if}}
+ *   {{#unless private}} ... {{/unless}}
+ *   {{#each packages as pkg}} {{ @index }}: {{ pkg }} {{/each}}
+ *   {{! comment }}                             dropped from the output
+ *   \{{                                        a literal "{{"
+ *
+ * Block tags alone on a line take the whole line with them. Outputs naming an
+ * undefined variable, and `${{ ... }}` expressions (GitHub Actions and the like),
+ * are kept as written so foreign `{{ }}` syntax passes through.
+ */
+
+export type TemplateContext = Record<string, unknown>;
+
+export type TemplateFilter = (value: unknown, ...args: unknown[]) => unknown;
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "output"; expr: string; raw: string; line: number }
+  | { type: "if"; expr: string; negate: boolean; then: Node[]; else: Node[]; line: number }
+  | { type: "each"; expr: string; alias?: string; body: Node[]; else: Node[]; line: number };
+
+type Token =
+  | { type: "text"; value: string }
+  | { type: "tag"; value: string; raw: string; line: number };
+
+// Template file suffixes dropped from output names (component.tsx.hbs -> component.tsx)
+export const TEMPLATE_EXTENSIONS = [".hbs", ".tmpl"];
+
+// Declares the variables a template directory needs; never rendered itself
+export const TEMPLATE_MANIFEST = "forge-template.json";
+
+const words = (value: unknown) =>
+  String(value ?? "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+export const filters: Record<string, TemplateFilter> = {
+  camelCase: (v) => words(v).map((w, i) => (i === 0 ? w.toLowerCase() : capitalize(w.toLowerCase()))).join(""),
+  pascalCase: (v) => words(v).map(w => capitalize(w.toLowerCase())).join(""),
+  kebabCase: (v) => words(v).map(w => w.toLowerCase()).join("-"),
+  snakeCase: (v) => words(v).map(w => w.toLowerCase()).join("_"),
+  constantCase: (v) => words(v).map(w => w.toUpperCase()).join("_"),
+  upperCase: (v) => String(v ?? "").toUpperCase(),
+  lowerCase: (v) => String(v ?? "").toLowerCase(),
+  capitalize: (v) => capitalize(String(v ?? "")),
+  trim: (v) => String(v ?? "").trim(),
+  json: (v) => JSON.stringify(v, null, 2),
+  join: (v, sep = ", ") => (Array.isArray(v) ? v.join(String(sep)) : v),
+  default: (v, fallback = "") => (v === undefined || v === null || v === "" ? fallback : v)
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const tagPattern = /\\\{\{|\$\{\{[\s\S]*?\}\}|\{\{([\s\S]*?)\}\}/g;
+  let last = 0;
+  let text = "";
+  let match: RegExpExecArray | null;
+
+  const lineAt = (index: number) => source.slice(0, index).split("\n").length;
+
+  while ((match = tagPattern.exec(source))) {
+    text += source.slice(last, match.index);
+    last = tagPattern.lastIndex;
+    if (match[0] === "\\{{") {
+      text += "{{";
+      continue;
+    }
+    if (match[0].startsWith("$")) {
+      text += match[0];
+      continue;
+    }
+
+    const value = match[1].trim();
+    // Block tags on a line of their own swallow the line's indentation and newline
+    if (/^[#/!]|^else$/.test(value)) {
+      const rest = source.slice(last).match(/^[ \t]*(\r?\n|$)/);
+      if (rest && /(^|\n)[ \t]*$/.test(source.slice(0, match.index))) {
+        text = text.slice(0, text.lastIndexOf("\n") + 1);
+        last += rest[0].length;
+        tagPattern.lastIndex = last;
+      }
+    }
+
+    if (text) tokens.push({ type: "text", value: text });
+    text = "";
+    if (!value.startsWith("!")) tokens.push({ type: "tag", value, raw: match[0], line: lineAt(match.index) });
+  }
+  text += source.slice(last);
+  if (text) tokens.push({ type: "text", value: text });
+  return tokens;
+}
+
+function parse(tokens: Token[], name: string): Node[] {
+  let pos = 0;
+
+  const parseUntil = (closers: string[]): { nodes: Node[]; closer?: string } => {
+    const nodes: Node[] = [];
+    while (pos < tokens.length) {
+      const token = tokens[pos++];
+      if (token.type === "text") {
+        nodes.push({ type: "text", value: token.value });
+        continue;
+      }
+      const tag = token.value;
+      if (closers.includes(tag)) return { nodes, closer: tag };
+
+      const block = tag.match(/^#(if|unless|each)\s+([\s\S]+)$/);
+      if (block) {
+        const [, kind, rest] = block;
+        const closer = `/${kind}`;
+        const body = parseUntil(["else", closer]);
+        const alt = body.closer === "else" ? parseUntil([closer]) : { nodes: [], closer: body.closer };
+        if (alt.closer !== closer) {
+          throw new Error(`Unclosed {{#${kind}}} in ${name} (line ${token.line})`);
+        }
+        if (kind === "each") {
+          const each = rest.match(/^([\s\S]+?)\s+as\s+([A-Za-z_$][\w$]*)$/);
+          nodes.push({
+            type: "each",
+            expr: each ? each[1] : rest,
+            alias: each?.[2],
+            body: body.nodes,
+            else: alt.nodes,
+            line: token.line
+          });
+        } else {
+          nodes.push({ type: "if", expr: rest, negate: kind === "unless", then: body.nodes, else: alt.nodes, line: token.line });
+        }
+        continue;
+      }
+      if (tag.startsWith("#") || tag.startsWith("/") || tag === "else") {
+        throw new Error(`Unexpected {{${tag}}} in ${name} (line ${token.line})`);
+      }
+      nodes.push({ type: "output", expr: tag, raw: token.raw, line: token.line });
+    }
+    return { nodes };
+  };
+
+  const { nodes } = parseUntil([]);
+  return nodes;
+}
+
+// Splits on `sep` outside of quotes and parentheses
+function splitTop(expr: string, sep: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = "";
+  let start = 0;
+  for (let i = 0; i < expr.length; i++) {
+    const ch = expr[i];
+    if (quote) {
+      if (ch === quote) quote = "";
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth--;
+    } else if (depth === 0 && expr.startsWith(sep, i)) {
+      parts.push(expr.slice(start, i));
+      i += sep.length - 1;
+      start = i + 1;
+    }
+  }
+  parts.push(expr.slice(start));
+  return parts.map(p => p.trim());
+}
+
+function lookup(scopes: TemplateContext[], ref: string): unknown {
+  const [head, ...rest] = ref.split(".");
+  const scope = scopes.find(s => head in s);
+  let value: unknown = head === "this" ? scopes[0].this : scope?.[head];
+  for (const key of rest) {
+    if (value === undefined || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function evaluateOperand(operand: string, scopes: TemplateContext[], name: string, line: number): unknown {
+  const [base, ...filterCalls] = splitTop(operand, "|");
+  let value = evaluateAtom(base, scopes);
+
+  for (const call of filterCalls) {
+    const m = call.match(/^([A-Za-z_][\w]*)\s*(?:\(([\s\S]*)\))?$/);
+    const filter = m && filters[m[1]];
+    if (!filter) {
+      throw new Error(`Unknown filter "${call}" in ${name} (line ${line})`);
+    }
+    const args = m[2] ? splitTop(m[2], ",").map(a => evaluateAtom(a, scopes)) : [];
+    value = filter(value, ...args);
+  }
+  return value;
+}
+
+function evaluateAtom(atom: string, scopes: TemplateContext[]): unknown {
+  const text = atom.trim();
+  if (text.startsWith("!")) return !truthy(evaluateAtom(text.slice(1), scopes));
+  const quoted = text.match(/^(["'])([\s\S]*)\1$/);
+  if (quoted) return quoted[2];
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  if (text === "true" || text === "false") return text === "true";
+  if (text === "null") return null;
+  return lookup(scopes, text);
+}
+
+function evaluate(expr: string, scopes: TemplateContext[], name: string, line: number): unknown {
+  const or = splitTop(expr, "||");
+  if (or.length > 1) return or.some(part => truthy(evaluate(part, scopes, name, line)));
+  const and = splitTop(expr, "&&");
+  if (and.length > 1) return and.every(part => truthy(evaluate(part, scopes, name, line)));
+
+  for (const op of ["==", "!="]) {
+    const sides = splitTop(expr, op);
+    if (sides.length === 2) {
+      const equal = evaluateOperand(sides[0], scopes, name, line) === evaluateOperand(sides[1], scopes, name, line);
+      return op === "==" ? equal : !equal;
+    }
+  }
+  return evaluateOperand(expr, scopes, name, line);
+}
+
+function truthy(value: unknown) {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+function renderNodes(nodes: Node[], scopes: TemplateContext[], name: string): string {
+  let out = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      out += node.value;
+    } else if (node.type === "output") {
+      const value = evaluate(node.expr, scopes, name, node.line);
+      if (value === undefined) {
+        out += node.raw;
+        continue;
+      }
+      out += value === null ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+    } else if (node.type === "if") {
+      const pass = truthy(evaluate(node.expr, scopes, name, node.line)) !== node.negate;
+      out += renderNodes(pass ? node.then : node.else, scopes, name);
+    } else {
+      const value = evaluate(node.expr, scopes, name, node.line);
+      const entries: [string | number, unknown][] = Array.isArray(value)
+        ? value.map((v, i) => [i, v])
+        : value && typeof value === "object"
+        ? Object.entries(value)
+        : [];
+      if (entries.length === 0) {
+        out += renderNodes(node.else, scopes, name);
+        continue;
+      }
+      entries.forEach(([key, item], index) => {
+        const scope: TemplateContext = {
+          this: item,
+          "@index": index,
+          "@key": key,
+          "@first": index === 0,
+          "@last": index === entries.length - 1
+        };
+        if (node.alias) scope[node.alias] = item;
+        out += renderNodes(node.body, [scope, ...scopes], name);
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Renders a template string. `name` only appears in error messages.
+ */
+export function renderTemplate(source: string, context: TemplateContext, name = "template"): string {
+  if (!source.includes("{{")) return source;
+  return renderNodes(parse(tokenize(source), name), [context], name);
+}
+
+/**
+ * Expands `__var__` placeholders in a file or directory name. Placeholders
+ * that don't name a defined variable (`__tests__`, `__init__.py`) are kept.
+ */
+export function renderFileName(fileName: string, context: TemplateContext): string {
+  const rendered = fileName.replace(/__([A-Za-z_$][\w$.]*?(?:\|[\w]+)*)__/g, (whole, expr: string) => {
+    const [ref, ...filterNames] = expr.split("|");
+    let value = lookup([context], ref);
+    if (value === undefined || value === null) return whole;
+    for (const f of filterNames) {
+      if (!filters[f]) return whole;
+      value = filters[f](value);
+    }
+    return String(value);
+  });
+  const ext = TEMPLATE_EXTENSIONS.find(e => rendered.endsWith(e));
+  return ext ? rendered.slice(0, -ext.length) : rendered;
+}
+
+/**
+ * Fills `{{ name }}` / `{{ name | kebabCase }}` placeholders in one line of a tree.
+ * Placeholders that can't be filled are left as they are and described in `errors`.
+ */
+export function renderTreeLine(line: string, context: TemplateContext): { text: string; errors: string[] } {
+  const errors: string[] = [];
+  const text = line.replace(/\{\{([^{}]*)\}\}/g, (whole, expr: string) => {
+    const [ref, ...filterNames] = expr.split("|").map(part => part.trim());
+    if (!/^[A-Za-z_$][\w$.]*$/.test(ref)) {
+      errors.push(`Invalid placeholder ${whole}`);
+      return whole;
+    }
+    let value = lookup([context], ref);
+    if (value === undefined || value === null || value === "") {
+      errors.push(`Unresolved variable "${ref}" in ${whole}: pass --var ${ref}=<value> or set it in variables`);
+      return whole;
+    }
+    for (const f of filterNames) {
+      if (!filters[f]) {
+        errors.push(`Unknown filter "${f}" in ${whole} (available: ${Object.keys(filters).join(", ")})`);
+        return whole;
+      }
+      value = filters[f](value);
+    }
+    return String(value);
+  });
+  return { text, errors };
+}
+
+/**
+ * Built-in variables for a node, layered under cfg.variables so users can
+ * override them.
+ */
+export function templateContext(
+  cfg: ForgeConfig,
+  node?: TreeNode,
+  extra: TemplateContext = {}
+): TemplateContext {
+  const nodePath = node?.path ?? cfg.targetDir;
+  return {
+    targetDir: cfg.targetDir,
+    packageManager: cfg.packageManager ?? "npm",
+    pm: cfg.packageManager ?? "npm",
+    name: node?.name ?? path.basename(cfg.targetDir),
+    path: nodePath,
+    relativePath: path.relative(cfg.targetDir, path.resolve(cfg.targetDir, nodePath)).split(path.sep).join("/"),
+    dirName: path.basename(node?.kind === "file" ? path.dirname(nodePath) : nodePath),
+    ...cfg.variables,
+    ...extra
+  };
+}
+
+// The text of a file worth rendering: UTF-8 with a .hbs/.tmpl name or placeholders in it
+function readTemplate(file: string): string | undefined {
+  const buffer = readFileSync(file);
+  if (buffer.includes(0)) return undefined;
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return undefined;
+  }
+  const templated = TEMPLATE_EXTENSIONS.some(e => file.endsWith(e)) || text.includes("{{") || text.includes("${");
+  return templated ? text : undefined;
+}
+
+/**
+ * Plans mkdir/write/copy actions for a template directory, recursing into
+ * subdirectories and rendering file names. Text templates are rendered into
+ * writes; binary files and files without placeholders are copied as they are.
+ */
+export function planTemplateDir(templateDir: string, destDir: string, context: TemplateContext): PlanAction[] {
+  const actions: PlanAction[] = [];
+  if (!existsSync(templateDir)) return actions;
+
+  const walk = (dir: string, dest: string) => {
+    for (const entry of readdirSync(dir).sort()) {
+      if (dir === templateDir && entry === TEMPLATE_MANIFEST) continue;
+      const source = path.join(dir, entry);
+      const target = path.join(dest, renderFileName(entry, context));
+      if (statSync(source).isDirectory()) {
+        actions.push({ type: "mkdir", path: target });
+        walk(source, target);
+      } else {
+        const template = readTemplate(source);
+        actions.push(template === undefined
+          ? { type: "copy", from: source, path: target }
+          : { type: "write", path: target, content: renderTemplate(template, context, source) });
+      }
+    }
+  };
+  walk(templateDir, destDir);
+  return actions;
+}
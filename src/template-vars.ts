@@ -0,0 +1,152 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import type { ForgeConfig, TemplateManifest, TemplateValue, TemplateVariable } from "./types.js";
+import { askTemplateVariables } from "./prompts.js";
+import { TEMPLATE_MANIFEST } from "./template-engine.js";
+
+export const ENV_VAR_PREFIX = "FORGE_TREE_VAR_";
+
+export type ResolveVariablesOptions = {
+  cliVars?: Record<string, string>;   // From --var key=value
+  env?: NodeJS.ProcessEnv;
+  yes?: boolean;                      // Don't prompt, use defaults
+};
+
+export function envVarName(name: string) {
+  return ENV_VAR_PREFIX + name.replace(/[^A-Za-z0-9]/g, "_").toUpperCase();
+}
+
+export function parseVarFlags(values: string[] = []): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const value of values) {
+    const eq = value.indexOf("=");
+    if (eq <= 0) throw new Error(`Invalid --var "${value}": expected key=value`);
+    vars[value.slice(0, eq).trim()] = value.slice(eq + 1);
+  }
+  return vars;
+}
+
+export function loadTemplateManifest(dir: string): TemplateManifest | undefined {
+  const file = path.join(dir, TEMPLATE_MANIFEST);
+  if (!existsSync(file)) return undefined;
+
+  let manifest: TemplateManifest;
+  try {
+    manifest = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Invalid template manifest ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!Array.isArray(manifest?.variables)) {
+    throw new Error(`Invalid template manifest ${file}: "variables" must be an array`);
+  }
+  manifest.variables.forEach((v, i) => {
+    if (!v || typeof v.name !== "string" || !v.name) {
+      throw new Error(`Invalid template manifest ${file}: variables[${i}] needs a "name"`);
+    }
+    if (v.type && !["string", "number", "boolean"].includes(v.type)) {
+      throw new Error(`Invalid template manifest ${file}: "${v.name}" has unknown type "${v.type}"`);
+    }
+  });
+  return manifest;
+}
+
+/**
+ * Manifests for the templates a run will use: the templateDir root (single-file
+ * templates) plus one directory per detector.
+ */
+export function collectTemplateManifests(cfg: ForgeConfig, detectorIds: string[] = []): TemplateManifest[] {
+  if (!cfg.templateDir) return [];
+  const dirs = [cfg.templateDir, ...detectorIds.map(id => path.join(cfg.templateDir!, id))];
+  return dirs.map(loadTemplateManifest).filter((m): m is TemplateManifest => !!m);
+}
+
+/**
+ * Converts a raw value to the variable's type and checks its pattern and
+ * choices. Returns an error message instead of throwing.
+ */
+export function coerceVariable(def: TemplateVariable, raw: TemplateValue): TemplateValue | { error: string } {
+  let value: TemplateValue = raw;
+  if (def.type === "number") {
+    value = typeof raw === "number" ? raw : Number(raw);
+    if ((typeof raw === "string" && raw.trim() === "") || Number.isNaN(value)) {
+      return { error: `expected a number, got "${raw}"` };
+    }
+  } else if (def.type === "boolean") {
+    if (typeof raw === "boolean") value = raw;
+    else if (/^(true|yes|1|on)$/i.test(String(raw))) value = true;
+    else if (/^(false|no|0|off)$/i.test(String(raw))) value = false;
+    else return { error: `expected true or false, got "${raw}"` };
+  } else {
+    value = String(raw);
+  }
+
+  if (def.choices && !def.choices.includes(String(value))) {
+    return { error: `expected one of ${def.choices.join(", ")}, got "${value}"` };
+  }
+  if (def.pattern && !new RegExp(def.pattern).test(String(value))) {
+    return { error: `"${value}" does not match /${def.pattern}/` };
+  }
+  return value;
+}
+
+/**
+ * Fills in every variable declared by the manifests. Values come from --var,
+ * then FORGE_TREE_VAR_<NAME>, then cfg.variables, then an interactive prompt,
+ * then the declared default. Throws listing everything that is invalid or
+ * still missing, so the run stops before anything is written.
+ */
+export async function resolveTemplateVariables(
+  manifests: TemplateManifest[],
+  cfg: Pick<ForgeConfig, "variables">,
+  options: ResolveVariablesOptions = {}
+): Promise<Record<string, TemplateValue>> {
+  const { cliVars = {}, env = process.env, yes = false } = options;
+  const resolved: Record<string, TemplateValue> = { ...cfg.variables, ...cliVars };
+  const problems: string[] = [];
+  const unresolved: TemplateVariable[] = [];
+
+  const seen = new Set<string>();
+  const defs = manifests.flatMap(m => m.variables).filter(def => !seen.has(def.name) && !!seen.add(def.name));
+
+  for (const def of defs) {
+    const sources: [string, TemplateValue | undefined][] = [
+      [`--var ${def.name}`, cliVars[def.name]],
+      [envVarName(def.name), env[envVarName(def.name)]],
+      ["config variables", cfg.variables?.[def.name]]
+    ];
+    const found = sources.find(([, value]) => value !== undefined);
+    if (!found) {
+      unresolved.push(def);
+      continue;
+    }
+    const value = coerceVariable(def, found[1]!);
+    if (typeof value === "object") problems.push(`${def.name} (from ${found[0]}): ${value.error}`);
+    else resolved[def.name] = value;
+  }
+
+  const answers = unresolved.length > 0
+    ? await askTemplateVariables(unresolved, yes, (def, value) => {
+        const result = coerceVariable(def, value);
+        return typeof result === "object" ? result.error : true;
+      })
+    : {};
+  for (const def of unresolved) {
+    const answer = answers[def.name];
+    const raw = answer === undefined || answer === "" ? def.default : answer;
+    if (raw === undefined || raw === "") {
+      if (def.required !== false && def.default === undefined) {
+        const hint = def.description ? ` (${def.description})` : "";
+        problems.push(`${def.name}${hint} is required: pass --var ${def.name}=<value> or set ${envVarName(def.name)}`);
+      }
+      continue;
+    }
+    const value = coerceVariable(def, raw);
+    if (typeof value === "object") problems.push(`${def.name}: ${value.error}`);
+    else resolved[def.name] = value;
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Unresolved template variables:\n${problems.map(p => `  • ${p}`).join("\n")}`);
+  }
+  return resolved;
+}
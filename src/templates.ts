@@ -44,3 +44,11 @@ export const turbo = JSON.stringify(
   null,
   2
 ) + "\n";
+
+// Names usable with `@template:name` in a tree
+export const builtinTemplates: Record<string, string> = {
+  gitignore,
+  prettierrc,
+  editorconfig,
+  turbo
+};
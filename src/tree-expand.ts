@@ -0,0 +1,92 @@
+// Guards against a typo like `[1..100000]` producing a tree nobody wants
+export const MAX_EXPANSIONS = 1000;
+
+// `1..5`, `01..10` (zero-padded) or `a..e`
+const RANGE = /^(?:(-?\d+)\.\.(-?\d+)|([a-zA-Z])\.\.([a-zA-Z]))$/;
+
+type Group = { start: number; end: number; options: string[] };
+
+function range(body: string): string[] | undefined {
+  const match = RANGE.exec(body);
+  if (!match) return undefined;
+  if (match[3]) {
+    const from = match[3].charCodeAt(0);
+    const to = match[4].charCodeAt(0);
+    const step = from <= to ? 1 : -1;
+    const out: string[] = [];
+    for (let c = from; c !== to + step; c += step) out.push(String.fromCharCode(c));
+    return out;
+  }
+  const from = Number(match[1]);
+  const to = Number(match[2]);
+  if (Math.abs(to - from) >= MAX_EXPANSIONS) {
+    throw new Error(`Range "${body}" expands to more than ${MAX_EXPANSIONS} names`);
+  }
+  const padded = /^-?0\d/.test(match[1]) || /^-?0\d/.test(match[2]);
+  const width = padded ? Math.max(match[1].length, match[2].length) : 0;
+  const step = from <= to ? 1 : -1;
+  const out: string[] = [];
+  for (let n = from; n !== to + step; n += step) {
+    out.push(n < 0 ? "-" + String(-n).padStart(width - 1, "0") : String(n).padStart(width, "0"));
+  }
+  return out;
+}
+
+// Splits on commas that are not inside a nested {...}
+function alternatives(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const ch of body) {
+    if (ch === "{") depth++;
+    if (ch === "}") depth--;
+    if (ch === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+// First `{a,b}`, `{1..3}` or `[1..3]` in name. Braces without a comma or range are literal.
+function findGroup(name: string): Group | undefined {
+  for (let start = 0; start < name.length; start++) {
+    if (name[start] === "[") {
+      const end = name.indexOf("]", start);
+      const options = end === -1 ? undefined : range(name.slice(start + 1, end));
+      if (options) return { start, end, options };
+    } else if (name[start] === "{") {
+      let depth = 0;
+      let end = start;
+      for (; end < name.length; end++) {
+        if (name[end] === "{") depth++;
+        if (name[end] === "}" && --depth === 0) break;
+      }
+      if (end === name.length) continue;
+      const body = name.slice(start + 1, end);
+      const options = range(body) ?? alternatives(body);
+      if (options.length > 1) return { start, end, options };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Expands shell-style groups in a tree line: `{core,ui}` alternatives (nestable),
+ * `{1..5}` / `[1..5]` numeric ranges (`[01..10]` keeps the padding) and `[a..e]`
+ * letter ranges. Names without a group come back unchanged.
+ */
+export function expandName(name: string): string[] {
+  const group = findGroup(name);
+  if (!group) return [name];
+  const prefix = name.slice(0, group.start);
+  const suffix = name.slice(group.end + 1);
+  const names = group.options.flatMap(option => expandName(prefix + option + suffix));
+  if (names.length > MAX_EXPANSIONS) {
+    throw new Error(`"${name}" expands to more than ${MAX_EXPANSIONS} names`);
+  }
+  return names;
+}
@@ -0,0 +1,98 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { FILE_SOURCE, HEREDOC_START } from "./parser.js";
+import { splitFrontmatter } from "./frontmatter.js";
+
+// Where a line of a spliced tree text came from
+export type SourceLine = { file: string; line: number };
+
+export type LoadedTree = {
+  text: string;
+  sources?: SourceLine[];  // One per line of text; only set when something was included
+};
+
+// `@include ./fragments/github.tree`, possibly after tree guides and with a quoted path
+const INCLUDE = /^([\s│├└|+`─-]*)@include\s+(["']?)(.+?)\2\s*$/;
+
+type Splice = { lines: string[]; sources: SourceLine[]; included: boolean };
+
+async function splice(
+  text: string,
+  file: string | undefined,
+  label: string,
+  chain: string[],
+  base: string,
+  cwd: string
+): Promise<Splice> {
+  const lines: string[] = [];
+  const sources: SourceLine[] = [];
+  let included = false;
+  let heredocTag: string | undefined;
+
+  const raw = text.split(/\r?\n/);
+  for (let i = 0; i < raw.length; i++) {
+    const line = raw[i];
+    const at = `${label}:${i + 1}`;
+
+    // Heredoc bodies are content, even when a line looks like a directive
+    const inHeredoc = heredocTag !== undefined;
+    if (inHeredoc) {
+      if (line.trim() === heredocTag) heredocTag = undefined;
+    } else {
+      heredocTag = line.match(HEREDOC_START)?.[2];
+    }
+    const include = inHeredoc ? null : line.match(INCLUDE);
+    if (!include) {
+      // `<= path` in a fragment is relative to the fragment, the spliced text is read from `base`
+      const dir = file ? path.dirname(file) : cwd;
+      lines.push(inHeredoc || dir === base ? line : line.replace(FILE_SOURCE, (match, source: string) =>
+        match.replace(source, path.relative(base, path.resolve(dir, source)))));
+      sources.push({ file: label, line: i + 1 });
+      continue;
+    }
+
+    const target = path.resolve(file ? path.dirname(file) : cwd, include[3]);
+    const targetLabel = path.relative(cwd, target) || path.basename(target);
+    if (chain.includes(target)) {
+      const cycle = [...chain, target].map(f => path.relative(cwd, f) || path.basename(f));
+      throw new Error(`${at}: Include cycle: ${cycle.join(" -> ")}`);
+    }
+    let fragment: string;
+    try {
+      fragment = await fs.readFile(target, "utf8");
+    } catch {
+      throw new Error(`${at}: Included file not found: ${targetLabel}`);
+    }
+
+    // Only the top-level tree's frontmatter is config; a fragment's is dropped
+    try {
+      fragment = splitFrontmatter(fragment).text;
+    } catch (error) {
+      throw new Error(`${targetLabel}: Invalid frontmatter: ${error instanceof Error ? error.message : error}`);
+    }
+
+    // Fragment lines start at the depth of the @include line
+    const indent = include[1].replace(/[^\t]/g, " ");
+    const nested = await splice(fragment.replace(/\s+$/, ""), target, targetLabel, [...chain, target], base, cwd);
+    nested.lines.forEach(l => lines.push(l.trim() ? indent + l : l));
+    sources.push(...nested.sources);
+    included = true;
+  }
+  return { lines, sources, included };
+}
+
+/**
+ * Replaces `@include <path>` lines with the referenced tree files, indented to the
+ * depth of the directive. Paths are relative to the including file (or cwd for
+ * tree text); includes nest, and cycles are errors. Returns the spliced text and,
+ * if anything was included, where each of its lines came from.
+ */
+export async function resolveIncludes(text: string, file: string | undefined, cwd: string): Promise<LoadedTree> {
+  const absolute = file ? path.resolve(cwd, file) : undefined;
+  const label = absolute ? path.relative(cwd, absolute) || path.basename(absolute) : "<tree>";
+  const base = absolute ? path.dirname(absolute) : cwd;
+  const result = await splice(text, absolute, label, absolute ? [absolute] : [], base, cwd);
+  return result.included
+    ? { text: result.lines.join("\n"), sources: result.sources }
+    : { text };
+}
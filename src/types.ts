@@ -35,6 +35,7 @@ export type LogEntry = {
     result?: string;
     error?: string;
     duration?: number;
+    runId?: string;         // The run that wrote this entry
     metadata?: {
         config?: ForgeConfig;
         [key: string]: unknown;
@@ -72,6 +73,29 @@ export type LogConfig = {
     includeTimestamps?: boolean;
     includeDuration?: boolean;
     includeMetadata?: boolean;
+    redact?: RedactionConfig;  // Secret hiding for log, stats and viewer output
+    ndjson?: string;        // Also write every entry as one JSON line to this path (relative to targetDir)
+    perRun?: boolean;       // Write each run's files to .forge-tree/runs/<runId>/ instead of sharing one file
+    rotation?: LogRotationConfig;   // When the shared log file is set aside (without perRun)
+    retention?: LogRetentionConfig; // Which per-run directories are kept (with perRun)
+};
+
+export type LogRotationConfig = {
+    maxSize?: number;       // Bytes; the shared file is rotated once it reaches this (default 5 MB)
+    maxAgeDays?: number;    // Rotate once the oldest entry in the file is older than this
+    keep?: number;          // Rotated files to keep, e.g. forge-tree.log.1 ... forge-tree.log.5 (default 5)
+};
+
+export type LogRetentionConfig = {
+    maxRuns?: number;       // Newest run directories to keep (default 20)
+    maxAgeDays?: number;    // Delete run directories older than this
+};
+
+export type RedactionConfig = {
+    enabled?: boolean;      // Built-in rules apply unless this is false
+    keys?: string[];        // Extra key-name regexes whose values are hidden
+    patterns?: string[];    // Extra regexes replaced wherever they match
+    replacement?: string;   // Defaults to "[REDACTED]"
 };
 
 export type PathValidationRules = {
@@ -141,11 +165,13 @@ export type ViewerConfig = {
   cachePath?: string;
   logData?: string;
   statsData?: string;
+  redact?: RedactionConfig;
 };
 
 export type ForgeConfig = {
   // Core settings
   targetDir: string;
+  configFile?: string;  // Config file the run was loaded from (set by the CLI)
   treeText?: string;
   treeFile?: string;
   dryRun: boolean;
@@ -160,6 +186,7 @@ export type ForgeConfig = {
   allowNestedInit?: boolean;
   customInitializers?: CustomInitializer[];
   initTargets?: InitTarget[];
+  detectors?: { enable?: string[]; disable?: string[] };  // Detector IDs to keep only / to skip
 
   // Logging settings
   logging?: LogConfig;
@@ -187,6 +214,13 @@ export type ForgeConfig = {
   treeStyle?: TreeStyle;
   overwriteMode?: "ask" | "skip" | "force";
   skipExisting?: boolean;
+  backup?: boolean;  // Move overwritten files to .forge-tree-backup/<timestamp>/
+  transactional?: boolean;  // Journal applied changes and roll them back on failure
+  sync?: boolean;  // Only apply nodes missing on disk, compared with the last run
+  removedMode?: "ask" | "keep" | "delete" | "archive";  // Sync: nodes dropped from the tree
+  onConflict?: "tree" | "detector" | "merge" | "error";  // Tree and detector writing the same file
+  concurrency?: number;  // Plan steps applied at the same time
+  allowOutside?: boolean;  // Let plan steps touch paths outside targetDir
 
   // File handling
   preserveGitIgnore?: boolean;
@@ -194,7 +228,8 @@ export type ForgeConfig = {
   preserveConfig?: boolean;
   logLevel?: "silent" | "error" | "warn" | "info" | "debug";
   templateDir?: string;  // Custom template directory
-  variables?: Record<string, string>;  // Template variables
+  variables?: Record<string, TemplateValue>;  // Template variables
+  extensionlessFiles?: string[];  // Extra names parsed as files without an extension or @file
 
   // Path validation options
   pathValidation?: PathValidationRules;
@@ -205,7 +240,29 @@ export type ForgeConfig = {
     case?: "preserve" | "lower" | "upper";  // Case normalization
   };
   };
+
+  // Shape of forge-tree.config.{json,js,ts} and the package.json "forgeTree" key
+  export type ForgeConfigFile = Partial<Omit<ForgeConfig, "cwd" | "configFile">> & {
+    extends?: string | string[];  // Relative path or package name of a base config
+  };
   
+  export type TemplateValue = string | number | boolean;
+
+  // A variable declared in a template's forge-template.json
+  export type TemplateVariable = {
+    name: string;
+    type?: "string" | "number" | "boolean";  // Default: string
+    default?: TemplateValue;
+    pattern?: string;       // Regex the value has to match
+    description?: string;
+    choices?: string[];
+    required?: boolean;     // Default: true unless there is a default
+  };
+
+  export type TemplateManifest = {
+    variables: TemplateVariable[];
+  };
+
   export type NodeKind = "dir" | "file";
   
   export type TreeNode = {
@@ -214,13 +271,44 @@ export type ForgeConfig = {
     kind: NodeKind;
     children: TreeNode[];
     hint?: string;
+    rewrite?: PathRewrite;  // Set when path rules renamed this node
+    content?: NodeContent;  // File content declared in the tree
+    line?: number;          // Line of the tree text the node was parsed from
+    file?: string;          // Tree file of that line, when it was spliced in by @include
+    expandedFrom?: string;  // The `{a,b}` / `[1..3]` line this node is one expansion of
+  };
+
+  // Content attached to a file line in the tree
+  export type NodeContent =
+    | { type: "inline"; text: string }      // heredoc block: `file <<EOF ... EOF`
+    | { type: "file"; source: string }      // `file <= templates/foo.hbs`, relative to the tree file
+    | { type: "template"; name: string };   // `file @template:name`, built-in or from templateDir
+
+  // A change made to a tree path by the PathConflictStrategy
+  export type PathRewrite = {
+    from: string;
+    to: string | null;     // null when the node was skipped
+    code: string;          // Violation that triggered it (duplicatePath, invalidChars, ...)
+    strategy: string;      // Strategy that resolved it (numbered, merge, custom, ...)
   };
   
   export type PlanAction =
     | { type: "mkdir"; path: string }
     | { type: "write"; path: string; content: string }
     | { type: "ensurePkg"; path: string; name?: string }
-    | { type: "exec"; cwd: string; cmd: string; args: string[]; env?: Record<string, string> };
+    | { type: "exec"; cwd: string; cmd: string; args: string[]; env?: Record<string, string> }  // env only holds additions to the inherited environment
+    | { type: "copy"; from: string; path: string }  // Byte-for-byte, e.g. images from templateDir
+    | { type: "symlink"; path: string; target: string }  // target is stored as given, relative to the link
+    | { type: "chmod"; path: string; mode: string | number }  // "755" or 0o755
+    | { type: "append"; path: string; content: string }  // Skipped when the file already contains content
+    | { type: "remove"; path: string }
+    | { type: "patch"; path: string; patch: Record<string, unknown>; format?: "json" | "yaml" };  // RFC 7396 merge patch
+
+  // Where a plan action came from
+  export type PlanOrigin =
+    | { source: "tree"; node: string }
+    | { source: "defaults" }  // Dotfiles and turbo.json
+    | { source: "detector"; detectorId: string; node: string };
   
   export type GeneratorResult = {
     actions: PlanAction[];
@@ -4,6 +4,29 @@ import path from "path";
 import { execa } from "execa";
 import chalk from "chalk";
 import type { ForgeConfig, PlanAction } from "./types.js";
+import { askOverwrite } from "./prompts.js";
+import { formatDiff } from "./diff.js";
+import { Journal, rollbackManifest } from "./journal.js";
+import { applyMergePatch, mergeFileContent, mergeKindFor, patchFormat, type MergeKind, type MergeResult } from "./merge.js";
+import { OrderedLog, planDependencies, runScheduled } from "./executor.js";
+import { assertInsideTarget } from "./containment.js";
+import type { Logger } from "./logger.js";
+
+export const BACKUP_DIR = ".forge-tree-backup";
+
+export type ApplyOptions = Partial<
+  Pick<
+    ForgeConfig,
+    "targetDir" | "yes" | "overwriteMode" | "skipExisting" | "backup" | "transactional"
+    | "preserveGitIgnore" | "preservePackageJson" | "preserveConfig" | "concurrency" | "allowOutside"
+  >
+> & {
+  onProgress?: (done: number, total: number) => void;
+};
+
+export type ApplyResult = {
+  manifestFile?: string;
+};
 
 export async function ensureDir(p: string) {
   await fs.mkdir(p, { recursive: true });
@@ -130,32 +153,340 @@ export async function run(action: PlanAction, logger?: any) {
       });
       throw error;
     }
+    return;
+  }
+  try {
+    await runFileAction(action, logger);
+  } catch (error) {
+    logger?.logFileFailed(action.path, error as Error);
+    throw error;
   }
 }
 
-export async function applyPlan(plan: PlanAction[], dryRun: boolean, logger?: any) {
-  for (const step of plan) {
-    if (dryRun) {
-      const desc =
-        step.type === "mkdir"
-          ? `mkdir ${step.path}`
-          : step.type === "write"
-          ? `write ${step.path} (${step.content.length} bytes)`
-          : step.type === "ensurePkg"
-          ? `ensure package.json at ${step.path}`
-          : `exec ${step.cmd} ${step.args.join(" ")} (cwd=${step.cwd})`;
-      // eslint-disable-next-line no-console
-      console.log(chalk.gray("•"), desc);
-      logger?.info('Dry run action', {
-        type: step.type,
-        metadata: {
-          operation: step.type,
-          details: desc,
-          ...(step.type !== 'exec' ? { path: step.path } : { cwd: step.cwd })
-        }
-      });
+// copy, symlink, chmod, append, remove and patch
+async function runFileAction(action: Exclude<PlanAction, { type: "mkdir" | "write" | "ensurePkg" | "exec" }>, logger?: Logger) {
+  switch (action.type) {
+    case "copy": {
+      await ensureDir(path.dirname(action.path));
+      await fs.copyFile(action.from, action.path);
+      logger?.logFileCopied(action.from, action.path);
+      return;
+    }
+    case "symlink": {
+      const existing = await fs.lstat(action.path).catch(() => undefined);
+      if (existing) {
+        const same = existing.isSymbolicLink() && (await fs.readlink(action.path)) === action.target;
+        logger?.logFileSkipped(action.path, same ? 'Link already exists' : 'Path already exists');
+        return;
+      }
+      await ensureDir(path.dirname(action.path));
+      await fs.symlink(action.target, action.path);
+      logger?.logSymlinkCreated(action.path, action.target);
+      return;
+    }
+    case "chmod": {
+      const mode = typeof action.mode === "string" ? parseInt(action.mode, 8) : action.mode;
+      await fs.chmod(action.path, mode);
+      logger?.logModeChanged(action.path, mode);
+      return;
+    }
+    case "append": {
+      const existing = await readExisting(action.path);
+      if (existing?.includes(action.content)) {
+        logger?.logFileSkipped(action.path, 'Content already present');
+        return;
+      }
+      const separator = existing && !existing.endsWith("\n") ? "\n" : "";
+      await writeFileSafe(action.path, (existing ?? "") + separator + action.content);
+      logger?.logFileAppended(action.path);
+      return;
+    }
+    case "remove": {
+      await fs.rm(action.path, { recursive: true, force: true });
+      logger?.logPathRemoved(action.path);
+      return;
+    }
+    case "patch": {
+      const existing = await readExisting(action.path);
+      const next = applyMergePatch(existing, action.patch, patchFormat(action.path, action.format));
+      if (next === existing) {
+        logger?.logFileSkipped(action.path, 'Content unchanged');
+        return;
+      }
+      await writeFileSafe(action.path, next);
+      logger?.logFilePatched(action.path, Object.keys(action.patch));
+      return;
+    }
+  }
+}
+
+// One-line description used by dry runs
+export function describeAction(action: PlanAction): string {
+  switch (action.type) {
+    case "mkdir":
+      return `mkdir ${action.path}`;
+    case "write":
+      return `write ${action.path} (${action.content.length} bytes)`;
+    case "ensurePkg":
+      return `ensure package.json at ${action.path}`;
+    case "exec":
+      return `exec ${action.cmd} ${action.args.join(" ")} (cwd=${action.cwd})`;
+    case "copy":
+      return `copy ${action.from} → ${action.path}`;
+    case "symlink":
+      return `symlink ${action.path} → ${action.target}`;
+    case "chmod":
+      return `chmod ${typeof action.mode === "number" ? action.mode.toString(8) : action.mode} ${action.path}`;
+    case "append":
+      return `append to ${action.path} (${action.content.length} bytes, if missing)`;
+    case "remove":
+      return `remove ${action.path}`;
+    case "patch":
+      return `patch ${action.path} (${patchFormat(action.path, action.format)} merge: ${Object.keys(action.patch).join(", ")})`;
+  }
+}
+
+async function readExisting(p: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(p, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+// Moves a file into <targetDir>/.forge-tree-backup/<stamp>/, mirroring its relative path
+async function backupFile(p: string, targetDir: string, stamp: string, logger?: Logger) {
+  const abs = path.resolve(p);
+  let rel = path.relative(targetDir, abs);
+  if (rel.startsWith("..") || path.isAbsolute(rel)) rel = path.relative(path.parse(abs).root, abs);
+  const dest = path.join(targetDir, BACKUP_DIR, stamp, rel);
+
+  await ensureDir(path.dirname(dest));
+  try {
+    await fs.rename(abs, dest);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+    await fs.copyFile(abs, dest);
+    await fs.unlink(abs);
+  }
+  logger?.info('File Backed Up', { target: p, result: dest, metadata: { operation: 'backup' } });
+  return dest;
+}
+
+type OverwriteDecision = "overwrite" | "skip";
+
+/**
+ * Decides what happens to `write` actions whose target already exists, based on
+ * skipExisting/overwriteMode. In "ask" mode answers like "skip all" stick for the
+ * rest of the run, and concurrent steps take turns at the prompt.
+ */
+function createOverwritePolicy(options: ApplyOptions) {
+  let sticky: OverwriteDecision | undefined =
+    options.skipExisting || options.overwriteMode === "skip" ? "skip"
+    : options.overwriteMode === "force" ? "overwrite"
+    : undefined;
+  let prompting: Promise<unknown> = Promise.resolve();
+
+  const ask = async (p: string, existing: string, next: string): Promise<OverwriteDecision> => {
+    if (sticky) return sticky;
+    const choice = await askOverwrite(p, formatDiff(existing, next), !!options.yes);
+    if (choice === "overwrite-all") sticky = "overwrite";
+    if (choice === "skip-all") sticky = "skip";
+    return choice === "overwrite" || choice === "overwrite-all" ? "overwrite" : "skip";
+  };
+
+  return {
+    preview(): string {
+      return sticky ?? (options.yes ? "skip" : "ask");
+    },
+    decide(p: string, existing: string, next: string): Promise<OverwriteDecision> {
+      if (sticky) return Promise.resolve(sticky);
+      const decision = prompting.then(() => ask(p, existing, next));
+      prompting = decision.catch(() => undefined);
+      return decision;
+    }
+  };
+}
+
+async function writeWithPolicy(
+  step: Extract<PlanAction, { type: "write" }>,
+  policy: ReturnType<typeof createOverwritePolicy>,
+  options: ApplyOptions,
+  backupStamp: string,
+  logger?: Logger
+) {
+  const existing = await readExisting(step.path);
+  if (existing === undefined) {
+    await run(step, logger);
+    return;
+  }
+  if (existing === step.content) {
+    logger?.logFileSkipped(step.path, 'Content unchanged');
+    return;
+  }
+  // A preserve* option turns an overwrite into a merge, so files that are skipped anyway stay untouched
+  if (policy.preview() === "skip") {
+    logger?.logFileSkipped(step.path, 'File already exists');
+    return;
+  }
+  const mergeKind = mergeKindFor(step.path, options);
+  const merged = mergeKind && mergeWithExisting(step, mergeKind, existing, logger);
+  const content = merged ? merged.content : step.content;
+  if (content === existing) {
+    logger?.logFileSkipped(step.path, 'Nothing to merge');
+    return;
+  }
+  if ((await policy.decide(step.path, existing, content)) === "skip") {
+    logger?.logFileSkipped(step.path, 'File already exists');
+    return;
+  }
+
+  try {
+    if (options.backup) {
+      await backupFile(step.path, options.targetDir ?? process.cwd(), backupStamp, logger);
+    }
+    await writeFileSafe(step.path, content);
+    if (merged) logger?.logFileMerged(step.path, mergeKind, merged.added, merged.conflicts);
+    else logger?.logFileModified(step.path);
+  } catch (error) {
+    logger?.logFileFailed(step.path, error as Error);
+    throw error;
+  }
+}
+
+/**
+ * Merges a write into an existing file when a preserve* option covers it.
+ * Returns undefined when the files can't be parsed, so the overwrite policy decides on the plain write.
+ */
+function mergeWithExisting(
+  step: Extract<PlanAction, { type: "write" }>,
+  kind: MergeKind,
+  existing: string,
+  logger?: Logger
+): MergeResult | undefined {
+  let merged: MergeResult;
+  try {
+    merged = mergeFileContent(kind, step.path, existing, step.content);
+  } catch (error) {
+    logger?.warn('Merge Skipped', {
+      target: step.path,
+      error: error instanceof Error ? error.message : String(error),
+      metadata: { operation: 'merge', strategy: kind }
+    });
+    return undefined;
+  }
+
+  for (const conflict of merged.conflicts) {
+    // eslint-disable-next-line no-console
+    console.log(chalk.yellow(`⚠ ${step.path}: ${conflict}`));
+  }
+  if (merged.content === existing && merged.conflicts.length > 0) {
+    logger?.warn('Merge Conflicts', { target: step.path, metadata: { operation: 'merge', strategy: kind, conflicts: merged.conflicts } });
+  }
+  return merged;
+}
+
+export async function applyPlan(
+  plan: PlanAction[],
+  dryRun: boolean,
+  logger?: any,
+  options: ApplyOptions = {}
+): Promise<ApplyResult> {
+  // Every step must stay inside targetDir: checked up front so nothing is half done,
+  // and again right before each step for symlinks created along the way
+  const guard = options.targetDir && !options.allowOutside ? options.targetDir : undefined;
+  if (guard) plan.forEach(step => assertInsideTarget(step, guard));
+
+  const policy = createOverwritePolicy(options);
+  const backupStamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const journal = !dryRun && options.transactional
+    ? new Journal(options.targetDir ?? process.cwd())
+    : undefined;
+
+  // With a journal, Ctrl-C stops after the current step and rolls back instead of exiting mid-write
+  let interrupted = false;
+  const onInterrupt = () => {
+    interrupted = true;
+  };
+  if (journal) process.on("SIGINT", onInterrupt);
+
+  // Dry runs print in plan order; real runs start independent steps side by side
+  const concurrency = dryRun ? 1 : Math.max(1, options.concurrency ?? 1);
+  const log = new OrderedLog(logger);
+  let done = 0;
+  const runStep = async (index: number) => {
+    if (interrupted) throw new Error("Interrupted by user");
+    const step = plan[index];
+    if (guard) assertInsideTarget(step, guard);
+    const pending = journal?.begin(step);
+    try {
+      await applyStep(step, dryRun, policy, options, backupStamp, concurrency > 1 ? log.for(index) : logger);
+    } finally {
+      if (pending) journal!.commit(pending);
+      log.complete(index);
+      options.onProgress?.(++done, plan.length);
+    }
+  };
+
+  try {
+    if (concurrency === 1) {
+      for (let index = 0; index < plan.length; index++) await runStep(index);
     } else {
-      await run(step, logger);
+      await runScheduled(planDependencies(plan), concurrency, runStep);
     }
+    journal?.finish("completed");
+  } catch (error) {
+    log.flush();
+    if (journal) await rollbackJournal(journal, error, logger);
+    throw error;
+  } finally {
+    if (journal) process.off("SIGINT", onInterrupt);
+  }
+
+  return { manifestFile: journal?.file };
+}
+
+async function rollbackJournal(journal: Journal, error: unknown, logger?: Logger) {
+  journal.finish("failed", error);
+  logger?.warn('Rolling Back', {
+    error: error instanceof Error ? error.message : String(error),
+    metadata: { operation: 'rollback', manifest: journal.file, entries: journal.entries.length }
+  });
+  // eslint-disable-next-line no-console
+  console.log(chalk.yellow(`↩ Apply failed, rolling back changes recorded in ${journal.file}...`));
+  const result = await rollbackManifest(journal.toManifest(), { force: true, logger });
+  journal.finish("rolled-back", error);
+  // eslint-disable-next-line no-console
+  console.log(chalk.yellow(`↩ Rolled back ${result.undone.length} change(s); manifest kept at ${journal.file}`));
+}
+
+async function applyStep(
+  step: PlanAction,
+  dryRun: boolean,
+  policy: ReturnType<typeof createOverwritePolicy>,
+  options: ApplyOptions,
+  backupStamp: string,
+  logger?: Logger
+) {
+  if (dryRun) {
+    const exists = step.type === "write" && existsSync(step.path);
+    const preview = policy.preview();
+    const decision = preview !== "skip" && step.type === "write" && mergeKindFor(step.path, options) ? "merge" : preview;
+    const desc = describeAction(step) +
+      (exists ? ` [exists: ${decision}${options.backup ? ", backup" : ""}]` : "");
+    // eslint-disable-next-line no-console
+    console.log(chalk.gray("•"), desc);
+    logger?.info('Dry run action', {
+      metadata: {
+        operation: step.type,
+        details: desc,
+        ...(step.type !== 'exec' ? { path: step.path } : { cwd: step.cwd })
+      }
+    });
+  } else if (step.type === "write") {
+    await writeWithPolicy(step, policy, options, backupStamp, logger);
+  } else {
+    await run(step, logger);
   }
 }
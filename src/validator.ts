@@ -1,13 +1,21 @@
 import { TreeNode, ForgeConfig } from "./types.js";
 import { PathValidator, PathValidationError } from "./path-utils.js";
+import type { SourceLine } from "./tree-include.js";
 
 export interface ValidationError {
   type: 'error' | 'warning';
   message: string;
   line?: number;
+  file?: string;  // Set with line when the tree was spliced from several files
   context?: string;
 }
 
+/** `file:line` for lines spliced in by @include, `Line N` otherwise. */
+export function formatLocation(line: number, sources?: SourceLine[]) {
+  const source = sources?.[line - 1];
+  return source ? `${source.file}:${source.line}` : `Line ${line}`;
+}
+
 function validateComments(text: string): ValidationError[] {
   const errors: ValidationError[] = [];
   const lines = text.split(/\r?\n/);
@@ -134,7 +142,20 @@ function validateComments(text: string): ValidationError[] {
   return errors;
 }
 
-export function validateTree(text: string, roots: TreeNode[], cfg?: ForgeConfig): ValidationError[] {
+/**
+ * Checks the tree text and the parsed nodes. `sources` maps lines of a tree spliced
+ * together by @include back to their files, so errors point at `file:line`.
+ */
+export function validateTree(text: string, roots: TreeNode[], cfg?: ForgeConfig, sources?: SourceLine[]): ValidationError[] {
+  const errors = collectErrors(text, roots, cfg);
+  if (!sources) return errors;
+  return errors.map(e => {
+    const source = e.line && !e.file ? sources[e.line - 1] : undefined;
+    return source ? { ...e, file: source.file, line: source.line } : e;
+  });
+}
+
+function collectErrors(text: string, roots: TreeNode[], cfg?: ForgeConfig): ValidationError[] {
   const errors: ValidationError[] = [];
   
   // Validate comments first
@@ -225,7 +246,8 @@ export function validateTree(text: string, roots: TreeNode[], cfg?: ForgeConfig)
   let lastLine = '';
   lines.forEach((line, idx) => {
     const spaces = line.match(/^\s*/);
-    const treeChars = line.match(/^[-│├└|+`]*/);
+    // Horizontal dashes ("+--", "`-") are part of a single guide, not extra levels
+    const treeChars = line.match(/^[│├└|+`]*/);
     const depth = (spaces ? spaces[0].length / 2 : 0) || 
                  (treeChars ? treeChars[0].length : 0);
     
@@ -258,7 +280,8 @@ export function validateTree(text: string, roots: TreeNode[], cfg?: ForgeConfig)
   let prevLine = '';
   lines.forEach((line, idx) => {
     const spaces = line.match(/^\s*/);
-    const treeChars = line.match(/^[-│├└|+`]*/);
+    // Horizontal dashes ("+--", "`-") are part of a single guide, not extra levels
+    const treeChars = line.match(/^[│├└|+`]*/);
     const depth = (spaces ? spaces[0].length / 2 : 0) || 
                  (treeChars ? treeChars[0].length : 0);
     
@@ -284,7 +307,7 @@ export function validateTree(text: string, roots: TreeNode[], cfg?: ForgeConfig)
   }
 
   // Validate paths if config is provided
-  if (cfg?.pathValidation) {
+  if (cfg?.pathValidation || cfg?.pathConflict) {
     const pathValidator = new PathValidator(cfg.pathValidation, cfg.pathConflict);
     const validateNode = (node: TreeNode) => {
       const pathErrors = pathValidator.validatePath(node.path);
@@ -303,9 +326,15 @@ export function validateTree(text: string, roots: TreeNode[], cfg?: ForgeConfig)
       const existing = pathMap.get(node.path);
       if (existing) {
         existing.count++;
+        // Expansions point back at the line that produced them
+        const { file, line } = existing.node;
+        const first = line ? ` (${file ? `${file}:${line}` : `line ${line}`})` : '';
         errors.push({
           type: 'error',
-          message: `Path "${node.path}" is duplicated. First occurrence: ${existing.node.name}, Current: ${node.name}`
+          message: `Path "${node.path}" is duplicated. First occurrence: ${existing.node.name}${first}, Current: ${node.name}`,
+          line: node.line,
+          file: node.file,
+          context: node.expandedFrom ? `Expanded from "${node.expandedFrom}"` : undefined
         });
       } else {
         pathMap.set(node.path, { node, count: 1 });